@@ -12,11 +12,24 @@ import SettingsPanel from './components/SettingsPanel';
 import PhotoGalleryPage from './components/PhotoGalleryPage';
 import VersionPage from './components/VersionPage';
 import ApiVaultPage from './components/ApiVaultPage';
-import type { User, BotProfile, Persona, ChatMessage, AIModelOption, VoicePreference, ChatSession, CustomBlock, GeminiUsage, ApiKeyEntry } from './types';
-import { migrateData, loadUserData, saveUserData, clearUserData } from './services/storageService';
-import { resetApiState } from './services/geminiService';
+import StoragePage from './components/StoragePage';
+import UnlockPrompt from './components/UnlockPrompt';
+import SearchPage from './components/SearchPage';
+import type { User, BotProfile, Persona, ChatMessage, AIModelOption, VoicePreference, ChatSession, CustomBlock, GeminiUsage, ApiKeyEntry, CustomEndpointConfig, TtsEngineConfig, Lorebook, ChatSummary, BotMemory, ChatTree, GroupChat, BotThreads } from './types';
+import { migrateData, loadUserData, saveUserData, clearUserData, collectMediaGarbage, subscribeToOtherTabs, lockVault, unlockVault, wipeLockedVault, type UserData } from './services/storageService';
+import { getEncryptedKeys, getEncryptionSettings, isVaultLocked, loadEncryptionSettings, type EncryptionSettings } from './services/encryptionService';
+import { resetApiState, configureGateway } from './services/geminiService';
+import { configureVoiceEngine } from './services/voiceService';
+import { EMPTY_LOREBOOK } from './services/lorebook';
+import { getModel, DEFAULT_MODEL_ID } from './services/modelRegistry';
+import { exportBotCard, type ImportedBotCard } from './services/botCardService';
+import { getStorageStatus, requestPersistentStorage, type StorageLevel } from './services/storageMonitor';
+import { getParticipants } from './services/groupChat';
+import { addThread, getActiveThreadId, getBotThreads, getThreadIds, getThreadStats, renameThread, selectThread, setThreadArchived } from './services/chatThreads';
+import { indexMessage, indexThread, syncSearchIndex } from './services/searchIndex';
+import { EMPTY_TREE, getActivePath, isTreeInSync, pruneBranch, selectBranch, syncTree } from './services/chatTree';
 
-export type Page = 'home' | 'humans' | 'create' | 'personas' | 'chat' | 'story' | 'stats' | 'photo' | 'version' | 'vault';
+export type Page = 'home' | 'humans' | 'create' | 'personas' | 'chat' | 'story' | 'stats' | 'photo' | 'version' | 'vault' | 'storage' | 'search';
 
 const defaultUser: User = {
   id: 'local-user',
@@ -35,12 +48,18 @@ She speaks with a natural, casual charm, often using expressive descriptions and
 Format: "Speech" *action*`,
   photo: 'https://images.unsplash.com/photo-1614608682850-e0d6ed316d47?auto=format&fit=crop&w=400&q=80',
   scenario: 'Hey! I was just thinking about how much I missed our chats. How are you feeling today? *smiles warmly*',
-  isSpicy: false,
   conversationMode: 'normal',
   gender: 'female',
   galleryImages: [],
 };
 
+const createInitialMessage = (bot: BotProfile): ChatMessage => ({
+  id: `bot-initial-${Date.now()}`,
+  text: bot.scenario || `Hello! I'm ${bot.name}.`,
+  sender: 'bot',
+  timestamp: Date.now(),
+});
+
 const App: React.FC = () => {
   const [currentPage, setCurrentPage] = useState<Page>('home');
   const [bots, setBots] = useState<BotProfile[]>([]);
@@ -53,36 +72,72 @@ const App: React.FC = () => {
   const [customBlocks, setCustomBlocks] = useState<CustomBlock[]>([]);
   const [geminiUsage, setGeminiUsage] = useState<GeminiUsage>({});
   const [apiKeys, setApiKeys] = useState<ApiKeyEntry[]>([]);
+  const [customEndpoint, setCustomEndpoint] = useState<CustomEndpointConfig | null>(null);
+  const [ttsEngine, setTtsEngine] = useState<TtsEngineConfig | null>(null);
+  const [chatSummaries, setChatSummaries] = useState<Record<string, ChatSummary>>({});
+  const [botMemories, setBotMemories] = useState<Record<string, BotMemory[]>>({});
+  const [chatTrees, setChatTrees] = useState<Record<string, ChatTree>>({});
+  const [groupChats, setGroupChats] = useState<Record<string, GroupChat>>({});
+  const [chatThreads, setChatThreads] = useState<Record<string, BotThreads>>({});
+  const [lorebook, setLorebook] = useState<Lorebook>(EMPTY_LOREBOOK);
+  const [focusMessageId, setFocusMessageId] = useState<string | null>(null);
+  const [importedCard, setImportedCard] = useState<ImportedBotCard | null>(null);
   const [theme, setTheme] = useState<'light' | 'dark'>('dark');
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
-  const [selectedAI, setSelectedAI] = useState<AIModelOption>('gemini-3-flash-preview');
+  const [selectedAI, setSelectedAI] = useState<AIModelOption>(DEFAULT_MODEL_ID);
   const [voicePreference, setVoicePreference] = useState<VoicePreference | null>(null);
   const [hasConsented, setHasConsented] = useState<boolean>(false);
   const [botReplyDelay, setBotReplyDelay] = useState<number>(2);
   const [isDataLoaded, setIsDataLoaded] = useState<boolean>(false);
+  const [storageLevel, setStorageLevel] = useState<StorageLevel>('ok');
+  const [isStorageWarningDismissed, setIsStorageWarningDismissed] = useState(false);
+  const [lockSettings, setLockSettings] = useState<EncryptionSettings | null>(null);
+  const [isLocked, setIsLocked] = useState(false);
 
   const lastHash = useRef<string>('');
 
+  // Pushes stored data into state (startup, backup restore); with `keys`, only those keys.
+  const applyUserData = useCallback((data: Partial<UserData>, keys?: (keyof UserData)[]) => {
+    const has = (key: keyof UserData) => !keys || keys.includes(key);
+    if (has('bots')) {
+      let loadedBots = data?.bots || [];
+      if (!loadedBots || loadedBots.length === 0) { loadedBots = [RASHMIKA_BOT]; }
+      setBots(loadedBots);
+    }
+    if (has('personas')) setPersonas(data?.personas || []);
+    if (has('chatHistories')) setChatHistories(data?.chatHistories || {});
+    if (has('botUsage')) setBotUsage(data?.botUsage || {});
+    if (has('sessions')) setSessions(data?.sessions || []);
+    if (has('customBlocks')) setCustomBlocks(data?.customBlocks || []);
+    if (has('geminiUsage')) setGeminiUsage(data?.geminiUsage || {});
+    if (has('apiKeys')) setApiKeys(data?.apiKeys || []);
+    if (has('customEndpoint')) setCustomEndpoint(data?.customEndpoint || null);
+    if (has('ttsEngine')) setTtsEngine(data?.ttsEngine || null);
+    if (has('chatSummaries')) setChatSummaries(data?.chatSummaries || {});
+    if (has('botMemories')) setBotMemories(data?.botMemories || {});
+    if (has('chatTrees')) setChatTrees(data?.chatTrees || {});
+    if (has('groupChats')) setGroupChats(data?.groupChats || {});
+    if (has('chatThreads')) setChatThreads(data?.chatThreads || {});
+    if (has('lorebook')) setLorebook(data?.lorebook || EMPTY_LOREBOOK);
+    if (has('theme')) setTheme(data?.theme || 'dark');
+    if (has('selectedAI')) setSelectedAI(data?.selectedAI && getModel(data.selectedAI) ? data.selectedAI : DEFAULT_MODEL_ID);
+    if (has('voicePreference')) setVoicePreference(data?.voicePreference || null);
+    if (has('hasConsented')) setHasConsented(data?.hasConsented || false);
+    if (has('botReplyDelay')) setBotReplyDelay(data?.botReplyDelay ?? 2);
+  }, []);
+
   useEffect(() => {
     const loadAndMigrate = async () => {
       try {
-        await migrateData();
+        // Must come first: it decides which keys are read and written encrypted.
+        setLockSettings(await loadEncryptionSettings());
+        const report = await migrateData();
+        if (report.error || report.issues.length > 0) console.warn("Stored data check:", report);
         const data = await loadUserData();
-        let loadedBots = data?.bots || [];
-        if (!loadedBots || loadedBots.length === 0) { loadedBots = [RASHMIKA_BOT]; }
-        setBots(loadedBots);
-        setPersonas(data?.personas || []);
-        setChatHistories(data?.chatHistories || {});
-        setBotUsage(data?.botUsage || {});
-        setSessions(data?.sessions || []);
-        setCustomBlocks(data?.customBlocks || []);
-        setGeminiUsage(data?.geminiUsage || {});
-        setApiKeys(data?.apiKeys || []);
-        setTheme(data?.theme || 'dark');
-        setSelectedAI(data?.selectedAI || 'gemini-3-flash-preview');
-        setVoicePreference(data?.voicePreference || null);
-        setHasConsented(data?.hasConsented || false);
-        setBotReplyDelay(data?.botReplyDelay ?? 2);
+        applyUserData(data);
+        setIsLocked(isVaultLocked());
+        // Media of deleted bots and replaced photos is only dropped here, off the save path.
+        collectMediaGarbage();
       } catch (err) {
         console.error("Critical: Failed to load user data.", err);
         setBots([RASHMIKA_BOT]);
@@ -91,6 +146,54 @@ const App: React.FC = () => {
     loadAndMigrate();
   }, []);
 
+  // Another tab saved: take its version of each key, but merge chats so neither tab loses messages.
+  useEffect(() => {
+    if (!isDataLoaded) return;
+    return subscribeToOtherTabs(({ keys, data, mergeHistories }) => {
+      applyUserData(data, keys.filter(key => key !== 'chatHistories'));
+      if (keys.includes('chatHistories')) setChatHistories(prev => mergeHistories(prev));
+      setLockSettings(getEncryptionSettings());
+      setIsLocked(isVaultLocked());
+    });
+  }, [isDataLoaded, applyUserData]);
+
+  const handleLockVault = useCallback(async () => {
+    await lockVault();
+    // Empty the encrypted keys in memory; saves of the emptied state are refused while locked.
+    applyUserData({}, getEncryptedKeys() as (keyof UserData)[]);
+    setIsLocked(true);
+  }, [applyUserData]);
+
+  const handleUnlockVault = useCallback(async (passphrase: string) => {
+    const data = await unlockVault(passphrase);
+    applyUserData(data, getEncryptedKeys() as (keyof UserData)[]);
+    setIsLocked(false);
+  }, [applyUserData]);
+
+  const handleWipeVault = useCallback(async () => {
+    await wipeLockedVault();
+    setLockSettings(null);
+    setIsLocked(false);
+  }, []);
+
+  // Auto-lock after a stretch without taps or key presses.
+  useEffect(() => {
+    const minutes = lockSettings?.autoLockMinutes || 0;
+    if (isLocked || minutes <= 0) return;
+    let timer = setTimeout(handleLockVault, minutes * 60000);
+    const reset = () => {
+      clearTimeout(timer);
+      timer = setTimeout(handleLockVault, minutes * 60000);
+    };
+    window.addEventListener('pointerdown', reset);
+    window.addEventListener('keydown', reset);
+    return () => {
+      clearTimeout(timer);
+      window.removeEventListener('pointerdown', reset);
+      window.removeEventListener('keydown', reset);
+    };
+  }, [isLocked, lockSettings, handleLockVault]);
+
   useEffect(() => { if (isDataLoaded) saveUserData({ bots }); }, [bots, isDataLoaded]);
   useEffect(() => { if (isDataLoaded) saveUserData({ personas }); }, [personas, isDataLoaded]);
   useEffect(() => { if (isDataLoaded) saveUserData({ chatHistories }); }, [chatHistories, isDataLoaded]);
@@ -99,6 +202,47 @@ const App: React.FC = () => {
   useEffect(() => { if (isDataLoaded) saveUserData({ customBlocks }); }, [customBlocks, isDataLoaded]);
   useEffect(() => { if (isDataLoaded) saveUserData({ geminiUsage }); }, [geminiUsage, isDataLoaded]);
   useEffect(() => { if (isDataLoaded) saveUserData({ apiKeys }); }, [apiKeys, isDataLoaded]);
+  useEffect(() => { if (isDataLoaded) saveUserData({ customEndpoint }); }, [customEndpoint, isDataLoaded]);
+  useEffect(() => { if (isDataLoaded) saveUserData({ ttsEngine }); }, [ttsEngine, isDataLoaded]);
+  useEffect(() => { if (isDataLoaded) saveUserData({ chatSummaries }); }, [chatSummaries, isDataLoaded]);
+  useEffect(() => { if (isDataLoaded) saveUserData({ botMemories }); }, [botMemories, isDataLoaded]);
+  useEffect(() => { if (isDataLoaded) saveUserData({ chatTrees }); }, [chatTrees, isDataLoaded]);
+  useEffect(() => { if (isDataLoaded) saveUserData({ groupChats }); }, [groupChats, isDataLoaded]);
+  useEffect(() => { if (isDataLoaded) saveUserData({ chatThreads }); }, [chatThreads, isDataLoaded]);
+  useEffect(() => { if (isDataLoaded) saveUserData({ lorebook }); }, [lorebook, isDataLoaded]);
+
+  // Re-checks the quota a little after the big keys change, so the warning shows up before saves start failing.
+  useEffect(() => {
+    if (!isDataLoaded) return;
+    const timer = setTimeout(async () => {
+      try {
+        const { level } = await getStorageStatus();
+        setStorageLevel(level);
+        if (level !== 'ok') requestPersistentStorage();
+      } catch (err) {
+        console.warn("Storage check failed", err);
+      }
+    }, 3000);
+    return () => clearTimeout(timer);
+  }, [bots, chatHistories, isDataLoaded]);
+
+  // Catches history changes that didn't come through the chat handlers (load, restore, other tabs, branches).
+  useEffect(() => { if (isDataLoaded) syncSearchIndex(chatHistories); }, [chatHistories, isDataLoaded]);
+
+  // Every history change is folded into the conversation tree, so forks and alternates are kept.
+  useEffect(() => {
+    if (!isDataLoaded) return;
+    setChatTrees(prev => {
+        let next = prev;
+        Object.keys(chatHistories).forEach(threadId => {
+            const history = chatHistories[threadId];
+            const tree = prev[threadId] || EMPTY_TREE;
+            if (isTreeInSync(tree, history)) return;
+            next = { ...next, [threadId]: syncTree(tree, history) };
+        });
+        return next;
+    });
+  }, [chatHistories, isDataLoaded]);
   useEffect(() => { if (isDataLoaded) saveUserData({ theme }); }, [theme, isDataLoaded]);
   useEffect(() => { if (isDataLoaded) saveUserData({ selectedAI }); }, [selectedAI, isDataLoaded]);
   useEffect(() => { if (isDataLoaded) saveUserData({ voicePreference }); }, [voicePreference, isDataLoaded]);
@@ -146,6 +290,8 @@ const App: React.FC = () => {
         case '#persona': setCurrentPage('personas'); break;
         case '#version': setCurrentPage('version'); break;
         case '#vault': setCurrentPage('vault'); break;
+        case '#storage': setCurrentPage('storage'); break;
+        case '#search': setCurrentPage('search'); break;
         default: if (!hash) { window.location.hash = '#home'; } break;
       }
     };
@@ -162,10 +308,11 @@ const App: React.FC = () => {
     }
     if (page === 'create') {
         setBotToEdit(null);
+        setImportedCard(null);
         sessionStorage.removeItem('editingBotId');
         window.location.hash = '#create';
     } else {
-        const hash = { 'home': '#home', 'humans': '#humans', 'personas': '#persona', 'chat': '#chatview', 'story': '#story', 'stats': '#stats', 'photo': '#photo', 'version': '#version', 'vault': '#vault' }[page];
+        const hash = { 'home': '#home', 'humans': '#humans', 'personas': '#persona', 'chat': '#chatview', 'story': '#story', 'stats': '#stats', 'photo': '#photo', 'version': '#version', 'vault': '#vault', 'storage': '#storage', 'search': '#search' }[page];
         if (hash) window.location.hash = hash;
     }
   }, [hasConsented]);
@@ -176,25 +323,18 @@ const App: React.FC = () => {
         window.location.hash = '#settings';
         return;
     }
+    const threadId = getActiveThreadId(chatThreads, id);
     setChatHistories(prev => {
-        if (!prev[id] || prev[id].length === 0) {
+        if (!prev[threadId] || prev[threadId].length === 0) {
             const bot = bots.find(b => b.id === id);
-            if (bot) {
-                const initialMessage: ChatMessage = {
-                    id: `bot-initial-${Date.now()}`,
-                    text: bot.scenario || `Hello! I'm ${bot.name}.`,
-                    sender: 'bot',
-                    timestamp: Date.now(),
-                };
-                return { ...prev, [id]: [initialMessage] };
-            }
+            if (bot) return { ...prev, [threadId]: [createInitialMessage(bot)] };
         }
         return prev;
     });
     setSelectedBotId(id);
     setBotUsage(prev => ({ ...prev, [id]: (prev[id] || 0) + 1 }));
     window.location.hash = '#chatview';
-  }, [hasConsented, bots]);
+  }, [hasConsented, bots, chatThreads]);
 
   const handleEditBot = useCallback((id: string) => {
     const bot = bots.find(b => b.id === id);
@@ -202,12 +342,32 @@ const App: React.FC = () => {
   }, [bots]);
 
   const handleDeleteBot = useCallback((id: string) => {
+    // Per-chat data is keyed by thread, so every thread of the bot goes.
+    const threadIds = getThreadIds(chatThreads, id);
+    const withoutThreads = <T,>(prev: Record<string, T>): Record<string, T> =>
+        Object.fromEntries(Object.entries(prev).filter(([key]) => !threadIds.includes(key)));
     setBots(prev => prev.filter(b => b.id !== id));
-    setChatHistories(prev => {
+    setChatHistories(withoutThreads);
+    setChatSummaries(withoutThreads);
+    setBotMemories(prev => {
         const { [id]: _, ...rest } = prev;
         return rest;
     });
-  }, []);
+    setChatTrees(withoutThreads);
+    setChatThreads(prev => {
+        const { [id]: _, ...rest } = prev;
+        return rest;
+    });
+    setLorebook(prev => ({ ...prev, entries: prev.entries.filter(e => !(e.scope === 'bot' && e.ownerId === id)) }));
+    // Its own groups go with it; other groups just lose it as a participant.
+    setGroupChats(prev => {
+        const rest = withoutThreads<GroupChat>(prev);
+        Object.keys(rest).forEach(threadId => {
+            if (rest[threadId].participantIds.includes(id)) rest[threadId] = { ...rest[threadId], participantIds: rest[threadId].participantIds.filter(p => p !== id) };
+        });
+        return rest;
+    });
+  }, [chatThreads]);
 
   const handleCloneBot = useCallback((id: string) => {
     const botToClone = bots.find(b => b.id === id);
@@ -226,25 +386,44 @@ const App: React.FC = () => {
   }, [bots]);
 
   const handleSaveBot = useCallback((botData: Omit<BotProfile, 'id'> | BotProfile) => {
+    // restoredHistory only carries an imported chat into chatHistories; it is not part of the stored profile.
+    const { restoredHistory, ...profile } = botData;
     let finalId: string;
-    if ('id' in botData) { 
-        setBots(prev => prev.map(b => b.id === botData.id ? { ...b, ...botData } : b)); 
-        finalId = botData.id;
+    if ('id' in profile) { 
+        setBots(prev => prev.map(b => b.id === profile.id ? { ...b, ...profile, restoredHistory: undefined } : b)); 
+        finalId = profile.id;
     } 
     else { 
         finalId = `bot-${Date.now()}`;
-        setBots(prev => [...prev, { ...botData, id: finalId } as BotProfile]); 
+        setBots(prev => [...prev, { ...profile, id: finalId } as BotProfile]); 
     }
 
-    if (botData.restoredHistory) {
+    if (restoredHistory) {
+        const threadId = getActiveThreadId(chatThreads, finalId);
         setChatHistories(prev => ({
             ...prev,
-            [finalId]: botData.restoredHistory!
+            [threadId]: restoredHistory
         }));
     }
 
     setBotToEdit(null);
+    setImportedCard(null);
+  }, [chatThreads]);
+
+  const handleImportCard = useCallback((card: ImportedBotCard) => {
+    setBotToEdit(null);
+    sessionStorage.removeItem('editingBotId');
+    setImportedCard(card);
+    window.location.hash = '#create';
   }, []);
+
+  const handleExportBot = useCallback((id: string) => {
+    const bot = bots.find(b => b.id === id);
+    if (!bot) return;
+    const history = chatHistories[getActiveThreadId(chatThreads, id)] || [];
+    exportBotCard(bot, history.length > 0 && window.confirm(`Include the chat history (${history.length} messages)?`) ? history : undefined)
+      .catch(err => console.error("Bot export failed", err));
+  }, [bots, chatHistories, chatThreads]);
   
   const handleSavePersona = useCallback((personaData: Omit<Persona, 'id'> | Persona) => {
     if ('id' in personaData) { setPersonas(prev => prev.map(p => p.id === personaData.id ? { ...p, ...personaData } : p)); } 
@@ -255,6 +434,7 @@ const App: React.FC = () => {
     if (window.confirm("Delete persona?")) {
         setPersonas(prev => prev.filter(p => p.id !== id));
         setBots(prev => prev.map(b => b.personaId === id ? { ...b, personaId: null } : b));
+        setLorebook(prev => ({ ...prev, entries: prev.entries.filter(e => !(e.scope === 'persona' && e.ownerId === id)) }));
     }
   }, []);
   
@@ -287,32 +467,96 @@ const App: React.FC = () => {
       });
   }, []);
 
+  // Called by the gateway when a vault key hits its quota; the next active key takes over.
+  const handleKeyExhausted = useCallback((id: string) => {
+      setApiKeys(prev => prev.map(k => k.id === id ? { ...k, isExhausted: true } : k));
+  }, []);
+
+  useEffect(() => { configureGateway({ apiKeys, onKeyExhausted: handleKeyExhausted, customEndpoint }); }, [apiKeys, handleKeyExhausted, customEndpoint]);
+  useEffect(() => { configureVoiceEngine(ttsEngine); }, [ttsEngine]);
+
   const handleDeleteApiKey = useCallback((id: string) => {
       if (window.confirm("Delete this API key?")) {
           setApiKeys(prev => prev.filter(k => k.id !== id));
       }
   }, []);
 
-  const handleNewMessage = useCallback((botId: string, message: ChatMessage) => {
-    setChatHistories(prev => ({ ...prev, [botId]: [...(prev[botId] || []), message] }));
+  const handleNewMessage = useCallback((threadId: string, message: ChatMessage) => {
+    indexMessage(threadId, message);
+    setChatHistories(prev => ({ ...prev, [threadId]: [...(prev[threadId] || []), message] }));
   }, []);
   
-  const handleUpdateHistory = useCallback((botId: string, newHistory: ChatMessage[]) => {
-    setChatHistories(prev => ({ ...prev, [botId]: newHistory }));
+  const handleUpdateHistory = useCallback((threadId: string, newHistory: ChatMessage[]) => {
+    indexThread(threadId, newHistory);
+    setChatHistories(prev => ({ ...prev, [threadId]: newHistory }));
+  }, []);
+
+  // A new thread opens with the bot's scenario, like a first chat does.
+  const handleNewThread = useCallback((botId: string, name: string, group: GroupChat | null) => {
+    const bot = bots.find(b => b.id === botId);
+    if (!bot) return;
+    const { botThreads, thread } = addThread(getBotThreads(chatThreads, botId), botId, name);
+    setChatThreads(prev => ({ ...prev, [botId]: botThreads }));
+    if (group) setGroupChats(prev => ({ ...prev, [thread.id]: group }));
+    setChatHistories(prev => ({ ...prev, [thread.id]: [createInitialMessage(bot)] }));
+  }, [bots, chatThreads]);
+
+  // Opens a search result: switches to its thread and scrolls to the message.
+  const handleOpenMessage = useCallback((threadId: string, messageId: string) => {
+    const bot = bots.find(b => getThreadIds(chatThreads, b.id).includes(threadId));
+    if (!bot) return;
+    setChatThreads(prev => ({ ...prev, [bot.id]: selectThread(getBotThreads(prev, bot.id), threadId) }));
+    setSelectedBotId(bot.id);
+    setFocusMessageId(messageId);
+    window.location.hash = '#chatview';
+  }, [bots, chatThreads]);
+
+  const handleSelectThread = useCallback((botId: string, threadId: string) => {
+    setChatThreads(prev => ({ ...prev, [botId]: selectThread(getBotThreads(prev, botId), threadId) }));
+  }, []);
+
+  const handleRenameThread = useCallback((botId: string, threadId: string, name: string) => {
+    setChatThreads(prev => ({ ...prev, [botId]: renameThread(getBotThreads(prev, botId), threadId, name) }));
+  }, []);
+
+  const handleArchiveThread = useCallback((botId: string, threadId: string, archived: boolean) => {
+    const stats = getThreadStats(getBotThreads(chatThreads, botId), chatHistories, sessions);
+    setChatThreads(prev => ({ ...prev, [botId]: setThreadArchived(getBotThreads(prev, botId), threadId, archived, stats) }));
+  }, [chatThreads, chatHistories, sessions]);
+
+  const handleUpdateSummary = useCallback((threadId: string, summary: ChatSummary) => {
+    setChatSummaries(prev => ({ ...prev, [threadId]: summary }));
+  }, []);
+
+  const handleUpdateMemories = useCallback((botId: string, memories: BotMemory[]) => {
+    setBotMemories(prev => ({ ...prev, [botId]: memories }));
   }, []);
 
+  // Branch navigation edits the tree first; the flat history follows its new active path.
+  const applyTreeChange = useCallback((threadId: string, change: (tree: ChatTree) => ChatTree) => {
+    const tree = change(chatTrees[threadId] || EMPTY_TREE);
+    setChatTrees(prev => ({ ...prev, [threadId]: tree }));
+    setChatHistories(prev => ({ ...prev, [threadId]: getActivePath(tree) }));
+  }, [chatTrees]);
+
   const handleClearData = useCallback(async () => {
       if (window.confirm("Clear all data?")) {
         await clearUserData();
-        setBots([RASHMIKA_BOT]); setPersonas([]); setChatHistories({}); setBotUsage({}); setSessions([]); setCustomBlocks([]); setGeminiUsage({}); setBotReplyDelay(2); setApiKeys([]);
+        setLockSettings(null);
+        setBots([RASHMIKA_BOT]); setPersonas([]); setChatHistories({}); setBotUsage({}); setSessions([]); setCustomBlocks([]); setGeminiUsage({}); setBotReplyDelay(2); setApiKeys([]); setCustomEndpoint(null); setTtsEngine(null); setChatSummaries({}); setBotMemories({}); setChatTrees({}); setGroupChats({}); setChatThreads({}); setLorebook(EMPTY_LOREBOOK);
         resetApiState();
       }
   }, []);
   
+  const handleDataRestored = useCallback((data: Partial<UserData>) => {
+      applyUserData(data);
+      resetApiState();
+  }, [applyUserData]);
+
   const handleConsentChange = useCallback((agreed: boolean) => { setHasConsented(agreed); }, []);
 
-  const logSession = useCallback((startTime: number, botId: string) => {
-    setSessions(prev => [...prev, { startTime, endTime: Date.now(), botId }]);
+  const logSession = useCallback((startTime: number, botId: string, threadId: string) => {
+    setSessions(prev => [...prev, { startTime, endTime: Date.now(), botId, threadId }]);
   }, []);
 
   const updateGeminiUsage = useCallback((modelId: string, isQuotaExceeded: boolean) => {
@@ -352,30 +596,46 @@ const App: React.FC = () => {
 
   const selectedBot = bots.find(b => b.id === selectedBotId);
   const personaForBot = personas.find(p => p.id === selectedBot?.personaId);
-  const effectiveBot = selectedBot ? { ...selectedBot, personality: personaForBot ? `${selectedBot.personality}\n\n# PERSONA OVERLAY\n${personaForBot.personality}` : selectedBot.personality, persona: personaForBot } : null;
+  // The chat's persona applies to every bot in it, group members included.
+  const withPersona = (bot: BotProfile) => ({ ...bot, personality: personaForBot ? `${bot.personality}\n\n# PERSONA OVERLAY\n${personaForBot.personality}` : bot.personality, persona: personaForBot });
+  const effectiveBot = selectedBot ? withPersona(selectedBot) : null;
+  // Everything but memories belongs to the open thread.
+  const botThreads = effectiveBot ? getBotThreads(chatThreads, effectiveBot.id) : null;
+  const threadId = botThreads?.activeThreadId || '';
+  const chatParticipants = effectiveBot ? getParticipants(effectiveBot, groupChats[threadId], bots.map(withPersona)) : [];
 
   const renderPage = () => {
     if (!isDataLoaded) return <div className="h-full w-full flex flex-col items-center justify-center bg-dark-bg text-white gap-4"><div className="w-12 h-12 border-4 border-accent border-t-transparent rounded-full animate-spin"></div><p className="text-gray-400 font-medium">Initializing Zia...</p></div>;
     switch(currentPage) {
-      case 'home': return <HomePage bots={bots} botUsage={botUsage} chatHistories={chatHistories} onSelectBot={handleSelectBot} onEditBot={handleEditBot} onDeleteBot={handleDeleteBot} onCloneBot={handleCloneBot} theme={theme} toggleTheme={() => setTheme(t => t === 'light' ? 'dark' : 'light')} onOpenSettings={() => window.location.hash = '#settings'} />;
-      case 'humans': return <BotsPage bots={bots} onSelectBot={handleSelectBot} onEditBot={handleEditBot} onDeleteBot={handleDeleteBot} onCloneBot={handleCloneBot} />;
-      case 'create': return <CreationForm onSaveBot={handleSaveBot} onNavigate={handleNavigate} botToEdit={botToEdit} />;
+      case 'home': return <HomePage bots={bots} botUsage={botUsage} chatHistories={chatHistories} chatThreads={chatThreads} onSelectBot={handleSelectBot} onEditBot={handleEditBot} onDeleteBot={handleDeleteBot} onCloneBot={handleCloneBot} theme={theme} toggleTheme={() => setTheme(t => t === 'light' ? 'dark' : 'light')} onOpenSettings={() => window.location.hash = '#settings'} onOpenSearch={() => handleNavigate('search')} />;
+      case 'humans': return <BotsPage bots={bots} onSelectBot={handleSelectBot} onEditBot={handleEditBot} onDeleteBot={handleDeleteBot} onCloneBot={handleCloneBot} onExportBot={handleExportBot} onImportCard={handleImportCard} />;
+      case 'create': return <CreationForm onSaveBot={handleSaveBot} onNavigate={handleNavigate} botToEdit={botToEdit} importedCard={importedCard} defaultVoice={voicePreference} />;
       case 'story': return <ScenarioGeneratorPage />;
       case 'personas': return <PersonasPage personas={personas} bots={bots} onSave={handleSavePersona} onDelete={handleDeletePersona} onAssign={handleAssignPersona} />;
-      case 'vault': return <ApiVaultPage apiKeys={apiKeys} onSaveKey={handleSaveApiKey} onDeleteKey={handleDeleteApiKey} />;
-      case 'stats': return <StatsDashboard bots={bots} personas={personas} chatHistories={chatHistories} sessions={sessions} onBack={() => window.location.hash = '#home'} />;
-      case 'chat': return effectiveBot ? <ChatView bot={effectiveBot} onBack={() => window.location.hash = '#home'} chatHistory={chatHistories[effectiveBot.id] || []} onNewMessage={(m) => handleNewMessage(effectiveBot.id, m)} onUpdateHistory={(h) => handleUpdateHistory(effectiveBot.id, h)} onUpdateBot={handleSaveBot} selectedAI={selectedAI} voicePreference={voicePreference} onEdit={handleEditBot} currentUser={defaultUser} logSession={logSession} updateGeminiUsage={updateGeminiUsage} botReplyDelay={botReplyDelay} /> : <div className="h-full w-full flex items-center justify-center">Loading...</div>;
+      case 'vault': return <ApiVaultPage apiKeys={apiKeys} onSaveKey={handleSaveApiKey} onDeleteKey={handleDeleteApiKey} lockSettings={lockSettings} onLockSettingsChanged={() => setLockSettings(getEncryptionSettings())} onLockNow={handleLockVault} />;
+      case 'stats': return <StatsDashboard bots={bots} personas={personas} chatHistories={chatHistories} chatThreads={chatThreads} sessions={sessions} onBack={() => window.location.hash = '#home'} />;
+      case 'chat': return effectiveBot && botThreads ? <ChatView key={threadId} bot={effectiveBot} onBack={() => window.location.hash = '#home'} chatHistory={chatHistories[threadId] || []} onNewMessage={(m) => handleNewMessage(threadId, m)} onUpdateHistory={(h) => handleUpdateHistory(threadId, h)} onUpdateBot={handleSaveBot} selectedAI={selectedAI} voicePreference={voicePreference} onEdit={handleEditBot} currentUser={defaultUser} logSession={logSession} updateGeminiUsage={updateGeminiUsage} botReplyDelay={botReplyDelay} summary={chatSummaries[threadId] || null} onUpdateSummary={(s) => handleUpdateSummary(threadId, s)} memories={botMemories[effectiveBot.id] || []} onUpdateMemories={(m) => handleUpdateMemories(effectiveBot.id, m)} chatTree={chatTrees[threadId] || null} onSelectBranch={(id) => applyTreeChange(threadId, t => selectBranch(t, id))} onPruneBranch={(id) => applyTreeChange(threadId, t => pruneBranch(t, id))} onExportBot={handleExportBot} participants={chatParticipants} group={groupChats[threadId] || null} otherBots={bots.filter(b => b.id !== effectiveBot.id)} threads={botThreads.threads} activeThreadId={threadId} threadStats={getThreadStats(botThreads, chatHistories, sessions)} onSelectThread={(id) => handleSelectThread(effectiveBot.id, id)} onRenameThread={(id, name) => handleRenameThread(effectiveBot.id, id, name)} onArchiveThread={(id, archived) => handleArchiveThread(effectiveBot.id, id, archived)} onNewThread={(name, g) => handleNewThread(effectiveBot.id, name, g)} focusMessageId={focusMessageId} onFocusHandled={() => setFocusMessageId(null)} lorebook={lorebook} onUpdateLorebook={setLorebook} /> : <div className="h-full w-full flex items-center justify-center">Loading...</div>;
       case 'photo': return selectedBot ? <PhotoGalleryPage bot={selectedBot} onBack={() => window.location.hash = '#chatview'} /> : null;
       case 'version': return <VersionPage onBack={() => window.location.hash = '#home'} />;
+      case 'search': return <SearchPage bots={bots} chatThreads={chatThreads} chatHistories={chatHistories} onBack={() => window.location.hash = '#home'} onOpenMessage={handleOpenMessage} />;
+      case 'storage': return <StoragePage onBack={() => window.location.hash = '#home'} onDataChanged={handleDataRestored} />;
       default: return null;
     }
   };
 
   return (
     <div className={`w-full h-full max-w-md mx-auto flex flex-col font-sans shadow-2xl overflow-hidden relative ${theme}`}>
-      <SettingsPanel isOpen={isSettingsOpen} onClose={() => window.location.hash = lastHash.current || '#home'} theme={theme} toggleTheme={() => setTheme(t => t === 'light' ? 'dark' : 'light')} onClearData={handleClearData} selectedAI={selectedAI} onSelectAI={handleSelectAI} voicePreference={voicePreference} onSetVoicePreference={setVoicePreference} hasConsented={hasConsented} onConsentChange={handleConsentChange} onNavigate={handleNavigate} geminiUsage={geminiUsage} botReplyDelay={botReplyDelay} onSetBotReplyDelay={setBotReplyDelay} />
+      <SettingsPanel isOpen={isSettingsOpen} onClose={() => window.location.hash = lastHash.current || '#home'} theme={theme} toggleTheme={() => setTheme(t => t === 'light' ? 'dark' : 'light')} onClearData={handleClearData} selectedAI={selectedAI} onSelectAI={handleSelectAI} voicePreference={voicePreference} onSetVoicePreference={setVoicePreference} hasConsented={hasConsented} onConsentChange={handleConsentChange} onNavigate={handleNavigate} geminiUsage={geminiUsage} botReplyDelay={botReplyDelay} onSetBotReplyDelay={setBotReplyDelay} customEndpoint={customEndpoint} onSetCustomEndpoint={setCustomEndpoint} ttsEngine={ttsEngine} onSetTtsEngine={setTtsEngine} onDataRestored={handleDataRestored} />
+      {storageLevel !== 'ok' && !isStorageWarningDismissed && currentPage !== 'storage' && (
+        <div className={`absolute top-2 left-2 right-2 z-30 flex items-center gap-2 p-3 rounded-xl text-white text-sm shadow-lg animate-fadeIn ${storageLevel === 'critical' ? 'bg-red-600/95' : 'bg-yellow-600/95'}`}>
+          <span className="flex-1">{storageLevel === 'critical' ? 'Storage is almost full. New messages may not be saved.' : 'Storage is getting full.'}</span>
+          <button onClick={() => handleNavigate('storage')} className="font-bold underline">Free space</button>
+          <button onClick={() => setIsStorageWarningDismissed(true)} className="px-1" aria-label="Dismiss storage warning">&times;</button>
+        </div>
+      )}
       <div className="flex-1 overflow-hidden">{renderPage()}</div>
-      {currentPage !== 'chat' && currentPage !== 'stats' && currentPage !== 'photo' && currentPage !== 'version' && (
+      {isLocked && <UnlockPrompt encryptsChats={!!lockSettings?.encryptChats} onUnlock={handleUnlockVault} onWipe={handleWipeVault} />}
+      {currentPage !== 'chat' && currentPage !== 'stats' && currentPage !== 'photo' && currentPage !== 'version' && currentPage !== 'storage' && currentPage !== 'search' && (
         <div className="fixed bottom-0 left-1/2 -translate-x-1/2 w-full max-w-md"><FooterNav currentPage={currentPage} onNavigate={handleNavigate} /></div>
       )}
     </div>
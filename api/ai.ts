@@ -1,8 +1,13 @@
 
 import { GoogleGenAI } from "@google/genai";
+import { getModel, type ModelDefinition } from "../services/modelRegistry";
+import type { CustomEndpointConfig } from "../types";
 
 /**
  * 🛡️ SERVER-SIDE AI PROXY GATEWAY (FAST-PATH)
+ *
+ * Send `stream: true` in the body to receive newline-delimited JSON instead of a
+ * single blob: one `{"delta": "..."}` line per chunk, then `{"done": true}` or `{"error": "..."}`.
  */
 
 export const config = {
@@ -11,8 +16,17 @@ export const config = {
 
 const REQUEST_TIMEOUT = 20000; // 20 Seconds Hard Limit
 
-async function fetchWithTimeout(url: string, options: any, timeout: number) {
-  const controller = new AbortController();
+// Providers speaking the OpenAI chat-completions protocol share one request path.
+const OPENAI_COMPATIBLE_PROVIDERS: Record<string, { label: string; url: string; apiKey: () => string | undefined }> = {
+  groq: { label: 'Groq', url: "https://api.groq.com/openai/v1/chat/completions", apiKey: () => process.env.GROQ_API_KEY },
+  deepseek: { label: 'DeepSeek', url: "https://api.deepseek.com/chat/completions", apiKey: () => process.env.DEEPSEEK_API_KEY },
+};
+
+const JSON_HEADERS = { 'Content-Type': 'application/json' };
+const NDJSON_HEADERS = { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' };
+
+// `controller` outlives the timeout so a streamed body can still be cancelled later.
+async function fetchWithTimeout(url: string, options: any, timeout: number, controller = new AbortController()) {
   const id = setTimeout(() => controller.abort(), timeout);
   try {
     const response = await fetch(url, { ...options, signal: controller.signal });
@@ -24,53 +38,199 @@ async function fetchWithTimeout(url: string, options: any, timeout: number) {
   }
 }
 
+// Rejects with TIMEOUT when the source goes quiet for longer than `timeout` between chunks.
+async function* withIdleTimeout<T>(source: AsyncIterable<T>, timeout: number): AsyncGenerator<T> {
+  const iterator = source[Symbol.asyncIterator]();
+  while (true) {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const idle = new Promise<never>((_, reject) => { timer = setTimeout(() => reject(new Error('TIMEOUT')), timeout); });
+    try {
+      const result = await Promise.race([iterator.next(), idle]);
+      if (result.done) return;
+      yield result.value;
+    } catch (err) {
+      // Lets the source release its reader once the pending read settles.
+      iterator.return?.().catch(() => {});
+      throw err;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+// Parses an OpenAI-style SSE body (`data: {...}` lines) into text deltas.
+async function* readOpenAIStream(response: Response): AsyncGenerator<string> {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('data:')) continue;
+        const payload = trimmed.slice(5).trim();
+        if (payload === '[DONE]') return;
+        let data: any;
+        try { data = JSON.parse(payload); } catch { continue; } // a garbled line shouldn't cost the reply
+        // reasoning_content deltas are dropped but still count as activity for the idle timeout.
+        yield data.choices?.[0]?.delta?.content || '';
+      }
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+}
+
+// Origins the proxy may forward custom-endpoint requests to, e.g.
+// CUSTOM_ENDPOINT_ALLOWLIST="https://llm.example.com,http://10.0.0.5:8080".
+// Unset means none: the server would otherwise fetch any URL a client sends.
+function getCustomEndpointAllowlist(): Set<string> {
+  const origins = new Set<string>();
+  (process.env.CUSTOM_ENDPOINT_ALLOWLIST || '').split(',').forEach(entry => {
+    try { origins.add(new URL(entry.trim()).origin); } catch { /* skip malformed entries */ }
+  });
+  return origins;
+}
+
+// Resolves where an OpenAI-compatible request goes; `custom` targets come from the client's settings.
+function resolveOpenAICompatibleTarget(model: ModelDefinition, userKey?: string, endpoint?: CustomEndpointConfig | null) {
+  if (model.provider === 'custom') {
+    let url: URL | null = null;
+    try { url = new URL(String(endpoint?.baseUrl || '')); } catch { /* reported below */ }
+    if (!endpoint || !url || (url.protocol !== 'http:' && url.protocol !== 'https:') || !endpoint.model) {
+      throw Object.assign(new Error('Custom endpoint URL or model is not configured.'), { status: 400 });
+    }
+    if (!getCustomEndpointAllowlist().has(url.origin)) {
+      throw Object.assign(new Error(`Custom endpoint ${url.origin} is not allowed on this server (CUSTOM_ENDPOINT_ALLOWLIST).`), { status: 400 });
+    }
+    return {
+      label: 'Custom endpoint',
+      url: `${url.href.replace(/\/+$/, '')}/chat/completions`,
+      apiKey: userKey || endpoint.apiKey || undefined,
+      modelName: String(endpoint.model)
+    };
+  }
+
+  const compatible = OPENAI_COMPATIBLE_PROVIDERS[model.provider];
+  if (!compatible) return null;
+  const apiKey = userKey || compatible.apiKey();
+  if (!apiKey) throw new Error(`${model.provider.toUpperCase()}_API_KEY_MISSING`);
+  return { label: compatible.label, url: compatible.url, apiKey, modelName: model.id };
+}
+
+function normalizeError(err: any): { message: string; status: number } {
+  if (err?.name === 'AbortError' || err?.message === 'TIMEOUT') {
+    return { message: "Request timed out (20s). Try again.", status: 408 };
+  }
+  if (typeof err?.message === 'string' && err.message.endsWith('_API_KEY_MISSING')) {
+    return { message: "API key missing on server.", status: 401 };
+  }
+  // Upstream status (e.g. 429 quota) is passed through so the client can rotate keys.
+  const status = typeof err?.status === 'number' && err.status >= 400 ? err.status : 500;
+  return { message: err?.message || "Provider communication failed.", status };
+}
+
+// `upstream` is aborted when the stream fails or the client goes away, so the provider stops too.
+function streamResponse(deltas: AsyncIterable<string>, upstream: AbortController): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: object) => controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+      try {
+        for await (const delta of withIdleTimeout(deltas, REQUEST_TIMEOUT)) {
+          if (delta) send({ delta });
+        }
+        send({ done: true });
+      } catch (err) {
+        upstream.abort();
+        send({ error: normalizeError(err).message });
+      } finally {
+        controller.close();
+      }
+    },
+    cancel() {
+      upstream.abort();
+    }
+  });
+  return new Response(body, { status: 200, headers: NDJSON_HEADERS });
+}
+
 export default async function handler(req: Request) {
   if (req.method !== 'POST') return new Response('Method Not Allowed', { status: 405 });
 
   try {
-    const { provider, modelId, history, systemInstruction } = await req.json();
+    const { modelId, history, systemInstruction, stream, apiKey: userKey, endpoint } = await req.json();
+
+    // The registry decides which vendor and request adapter serve a model.
+    const model = getModel(modelId);
+    if (!model || model.adapter === 'local') {
+      return new Response(JSON.stringify({ error: 'Unsupported model' }), { status: 400, headers: JSON_HEADERS });
+    }
 
-    // 1. FAST-PATH: Immediate key resolution
-    const GEMINI_KEY = process.env.GEMINI_API_KEY || process.env.API_KEY;
-    const GROQ_KEY = process.env.GROQ_API_KEY;
+    // 1. FAST-PATH: Immediate key resolution (a key from the client's vault wins over server env)
+    const GEMINI_KEY = userKey || process.env.GEMINI_API_KEY || process.env.API_KEY;
+
+    // Cancels the provider request once the client has its answer or error.
+    const upstream = new AbortController();
 
     // 2. PROVIDER ROUTING (LAZY & ISOLATED)
-    if (provider === 'gemini') {
+    if (model.adapter === 'gemini') {
       if (!GEMINI_KEY) throw new Error('GEMINI_API_KEY_MISSING');
-      
+
       const ai = new GoogleGenAI({ apiKey: GEMINI_KEY });
       const contents = history.map((m: any) => ({
         role: m.sender === 'user' ? 'user' : 'model',
         parts: [{ text: m.text || " " }]
       }));
-
+      const request = {
+        model: model.id,
+        contents,
+        config: { systemInstruction, temperature: 0.9, abortSignal: upstream.signal }
+      };
       // Gemini SDK doesn't have a direct timeout, so we wrap the promise
-      const response = await Promise.race([
-        ai.models.generateContent({
-          model: modelId.startsWith('gemini-') ? modelId : 'gemini-3-flash-preview',
-          contents,
-          config: { systemInstruction, temperature: 0.9 }
-        }),
-        new Promise((_, reject) => setTimeout(() => reject(new Error('TIMEOUT')), REQUEST_TIMEOUT))
-      ]) as any;
-
-      return new Response(JSON.stringify({ text: response.text || "(Silence...)" }), { 
-        status: 200, 
-        headers: { 'Content-Type': 'application/json' } 
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => { upstream.abort(); reject(new Error('TIMEOUT')); }, REQUEST_TIMEOUT);
       });
-    }
 
-    if (provider === 'groq') {
-      if (!GROQ_KEY) throw new Error('GROQ_API_KEY_MISSING');
+      try {
+        if (stream) {
+          const chunks = await Promise.race([ai.models.generateContentStream(request), timeout]);
+          return streamResponse((async function* () {
+            for await (const chunk of chunks) yield chunk.text || '';
+          })(), upstream);
+        }
+
+        const response = await Promise.race([ai.models.generateContent(request), timeout]);
 
-      const response = await fetchWithTimeout("https://api.groq.com/openai/v1/chat/completions", {
+        return new Response(JSON.stringify({ text: response.text || "(Silence...)" }), {
+          status: 200,
+          headers: JSON_HEADERS
+        });
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+
+    const target = model.adapter === 'openai-compatible' ? resolveOpenAICompatibleTarget(model, userKey, endpoint) : null;
+    if (target) {
+      const response = await fetchWithTimeout(target.url, {
         method: "POST",
+        // A redirect could lead an allowed custom endpoint somewhere that isn't.
+        redirect: model.provider === 'custom' ? "error" : "follow",
         headers: {
           "Content-Type": "application/json",
-          "Authorization": `Bearer ${GROQ_KEY}`
+          // Local servers usually run without auth
+          ...(target.apiKey ? { "Authorization": `Bearer ${target.apiKey}` } : {})
         },
         body: JSON.stringify({
-          model: modelId,
+          model: target.modelName,
           messages: [
             { role: "system", content: systemInstruction },
             ...history.map((m: any) => ({
@@ -78,44 +238,39 @@ export default async function handler(req: Request) {
               content: m.text || " "
             }))
           ],
-          temperature: 0.9
+          temperature: 0.9,
+          stream: !!stream
         })
-      }, REQUEST_TIMEOUT);
+      }, REQUEST_TIMEOUT, upstream);
 
       const contentType = response.headers.get('content-type') || '';
+      if (stream && response.ok && contentType.includes('text/event-stream')) {
+        return streamResponse(readOpenAIStream(response), upstream);
+      }
       if (!contentType.includes('application/json')) {
         const text = await response.text();
-        return new Response(JSON.stringify({ error: `Provider error: ${text.slice(0, 100)}` }), { status: response.status });
+        return new Response(JSON.stringify({ error: `Provider error: ${text.slice(0, 100)}` }), { status: response.status, headers: JSON_HEADERS });
       }
 
       const data = await response.json();
-      if (!response.ok) throw new Error(data?.error?.message || 'Groq API error');
+      if (!response.ok) throw Object.assign(new Error(data?.error?.message || `${target.label} API error`), { status: response.status });
 
-      return new Response(JSON.stringify({ text: data.choices?.[0]?.message?.content || "(Silence...)" }), { 
-        status: 200, 
-        headers: { 'Content-Type': 'application/json' } 
+      // Reasoning models (deepseek-reasoner) return their chain of thought separately; it never joins the reply text.
+      const message = data.choices?.[0]?.message;
+      return new Response(JSON.stringify({ text: message?.content || "(Silence...)", reasoning: message?.reasoning_content || undefined }), {
+        status: 200,
+        headers: JSON_HEADERS
       });
     }
 
-    return new Response(JSON.stringify({ error: 'Unsupported provider' }), { status: 400 });
+    return new Response(JSON.stringify({ error: 'Unsupported provider' }), { status: 400, headers: JSON_HEADERS });
 
   } catch (err: any) {
-    let message = "An unexpected error occurred.";
-    let status = 500;
-
-    if (err.name === 'AbortError' || err.message === 'TIMEOUT') {
-      message = "Request timed out (20s). Try again.";
-      status = 408;
-    } else if (err.message === 'GEMINI_API_KEY_MISSING' || err.message === 'GROQ_API_KEY_MISSING') {
-      message = "API key missing on server.";
-      status = 401;
-    } else {
-      message = err.message || "Provider communication failed.";
-    }
+    const { message, status } = normalizeError(err);
 
-    return new Response(JSON.stringify({ error: message }), { 
-      status, 
-      headers: { 'Content-Type': 'application/json' } 
+    return new Response(JSON.stringify({ error: message }), {
+      status,
+      headers: JSON_HEADERS
     });
   }
 }
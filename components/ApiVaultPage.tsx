@@ -1,18 +1,28 @@
 
 import React, { useState } from 'react';
-import type { ApiKeyEntry } from '../types';
+import type { ApiKeyEntry, AIProvider } from '../types';
+import { PROVIDERS } from '../services/modelRegistry';
+import type { EncryptionSettings } from '../services/encryptionService';
+import VaultLockPanel from './VaultLockPanel';
 
 interface ApiVaultPageProps {
     apiKeys: ApiKeyEntry[];
     onSaveKey: (key: ApiKeyEntry) => void;
     onDeleteKey: (id: string) => void;
+    lockSettings: EncryptionSettings | null;
+    onLockSettingsChanged: () => void;
+    onLockNow: () => void;
 }
 
-const ApiVaultPage: React.FC<ApiVaultPageProps> = ({ apiKeys, onSaveKey, onDeleteKey }) => {
+// Providers whose requests can be authorised with a vault key.
+const keyProviders = PROVIDERS.filter(p => p.requiresKey);
+
+const ApiVaultPage: React.FC<ApiVaultPageProps> = ({ apiKeys, onSaveKey, onDeleteKey, lockSettings, onLockSettingsChanged, onLockNow }) => {
     const [isModalOpen, setIsModalOpen] = useState(false);
     const [editingKey, setEditingKey] = useState<ApiKeyEntry | null>(null);
     const [name, setName] = useState('');
     const [key, setKey] = useState('');
+    const [provider, setProvider] = useState<AIProvider>('gemini');
     const [showKey, setShowKey] = useState(false);
     const [copyId, setCopyId] = useState<string | null>(null);
 
@@ -21,10 +31,12 @@ const ApiVaultPage: React.FC<ApiVaultPageProps> = ({ apiKeys, onSaveKey, onDelet
             setEditingKey(entry);
             setName(entry.name);
             setKey(entry.key);
+            setProvider(entry.provider || 'gemini');
         } else {
             setEditingKey(null);
             setName('');
             setKey('');
+            setProvider('gemini');
         }
         setShowKey(false);
         setIsModalOpen(true);
@@ -36,6 +48,7 @@ const ApiVaultPage: React.FC<ApiVaultPageProps> = ({ apiKeys, onSaveKey, onDelet
             id: editingKey?.id || `key-${Date.now()}`,
             name: name.trim(),
             key: key.trim(),
+            provider,
             isActive: editingKey?.isActive ?? true,
             isExhausted: editingKey?.isExhausted ?? false
         };
@@ -107,6 +120,7 @@ const ApiVaultPage: React.FC<ApiVaultPageProps> = ({ apiKeys, onSaveKey, onDelet
             </header>
 
             <main className="flex-1 overflow-y-auto pb-24 space-y-3 no-scrollbar">
+                <VaultLockPanel settings={lockSettings} onSettingsChanged={onLockSettingsChanged} onLockNow={onLockNow} />
                 {apiKeys.length > 0 ? (
                     apiKeys.map(entry => (
                         <div 
@@ -117,6 +131,7 @@ const ApiVaultPage: React.FC<ApiVaultPageProps> = ({ apiKeys, onSaveKey, onDelet
                                 <div className="flex items-center gap-3 truncate">
                                     <div className={`h-3 w-3 rounded-full flex-shrink-0 ${entry.isActive ? 'bg-green-500' : 'bg-gray-500'}`} />
                                     <h3 className="font-bold text-base truncate">{entry.name}</h3>
+                                    <span className="text-[10px] uppercase font-bold text-accent bg-accent/10 px-2 py-0.5 rounded-full flex-shrink-0">{keyProviders.find(p => p.id === (entry.provider || 'gemini'))?.label}</span>
                                     {entry.isExhausted && <span className="text-[10px] uppercase font-bold text-red-400 bg-red-400/10 px-2 py-0.5 rounded-full">Exhausted</span>}
                                 </div>
                                 <div className="flex gap-1">
@@ -166,7 +181,7 @@ const ApiVaultPage: React.FC<ApiVaultPageProps> = ({ apiKeys, onSaveKey, onDelet
                     <div className="flex flex-col items-center justify-center py-20 text-gray-500 text-center px-6">
                         <svg xmlns="http://www.w3.org/2000/svg" className="h-16 w-16 mb-4 opacity-20" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" /></svg>
                         <p className="text-lg font-medium">Vault is Empty</p>
-                        <p className="text-sm">Store your private API keys here for easy access. All data stays local in your browser.</p>
+                        <p className="text-sm">Store your private API keys here. Active keys are used for chats, and an exhausted key rotates to the next one automatically. All data stays local in your browser.</p>
                     </div>
                 )}
             </main>
@@ -190,6 +205,12 @@ const ApiVaultPage: React.FC<ApiVaultPageProps> = ({ apiKeys, onSaveKey, onDelet
                                     autoFocus
                                 />
                             </div>
+                            <div>
+                                <label className="block text-xs font-bold text-gray-400 mb-1 ml-1 uppercase">Provider</label>
+                                <select value={provider} onChange={e => setProvider(e.target.value as AIProvider)} className={inputClass}>
+                                    {keyProviders.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                                </select>
+                            </div>
                             <div>
                                 <label className="block text-xs font-bold text-gray-400 mb-1 ml-1 uppercase">API Key</label>
                                 <div className="relative">
@@ -9,6 +9,7 @@ interface BotCardProps {
     onEdit?: () => void;
     onDelete?: () => void;
     onClone?: () => void;
+    onExport?: () => void;
 }
 
 const SwipeToChatButton: React.FC<{ botName: string, onSwiped: () => void }> = ({ botName, onSwiped }) => {
@@ -114,7 +115,7 @@ const BotPreviewModal: React.FC<{ bot: BotProfile, onSwiped: () => void, onClose
     );
 };
 
-const BotCard: React.FC<BotCardProps> = ({ bot, onChat, onEdit, onDelete, onClone }) => {
+const BotCard: React.FC<BotCardProps> = ({ bot, onChat, onEdit, onDelete, onClone, onExport }) => {
     const [menuOpen, setMenuOpen] = useState(false);
     const [modalVisible, setModalVisible] = useState(false);
     const [dynamicDesc, setDynamicDesc] = useState<string | null>(null);
@@ -157,6 +158,13 @@ const BotCard: React.FC<BotCardProps> = ({ bot, onChat, onEdit, onDelete, onClon
         setMenuOpen(false);
     };
 
+    const handleExportClick = (e: React.PointerEvent) => {
+        e.preventDefault();
+        e.stopPropagation();
+        if (onExport) onExport();
+        setMenuOpen(false);
+    };
+
     const handleDeleteClick = (e: React.PointerEvent) => {
         e.preventDefault();
         e.stopPropagation();
@@ -196,6 +204,7 @@ const BotCard: React.FC<BotCardProps> = ({ bot, onChat, onEdit, onDelete, onClon
                         <div className="absolute right-0 mt-2 w-32 bg-gray-800 rounded-lg shadow-xl animate-fadeIn z-20 overflow-hidden border border-white/5">
                             {onEdit && <button onPointerDown={handleEditClick} className="w-full text-left px-4 py-2.5 text-sm text-white hover:bg-accent transition-colors">Edit</button>}
                             {onClone && <button onPointerDown={handleCloneClick} className="w-full text-left px-4 py-2.5 text-sm text-white hover:bg-accent transition-colors border-t border-white/5">Clone</button>}
+                            {onExport && <button onPointerDown={handleExportClick} className="w-full text-left px-4 py-2.5 text-sm text-white hover:bg-accent transition-colors border-t border-white/5">Export</button>}
                             {onDelete && <button onPointerDown={handleDeleteClick} className="w-full text-left px-4 py-2.5 text-sm text-red-400 hover:bg-red-500 hover:text-white transition-colors border-t border-white/5">Delete</button>}
                         </div>
                     )}
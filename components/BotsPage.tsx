@@ -1,6 +1,7 @@
 import React from 'react';
 import type { BotProfile } from '../types';
 import BotCard from './BotCard';
+import { importBotCard, type ImportedBotCard } from '../services/botCardService';
 
 interface BotsPageProps {
   bots: BotProfile[];
@@ -8,14 +9,31 @@ interface BotsPageProps {
   onEditBot: (id: string) => void;
   onDeleteBot: (id: string) => void;
   onCloneBot: (id: string) => void;
+  onExportBot: (id: string) => void;
+  onImportCard: (card: ImportedBotCard) => void;
 }
 
-const BotsPage: React.FC<BotsPageProps> = ({ bots, onSelectBot, onEditBot, onDeleteBot, onCloneBot }) => {
+const BotsPage: React.FC<BotsPageProps> = ({ bots, onSelectBot, onEditBot, onDeleteBot, onCloneBot, onExportBot, onImportCard }) => {
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onImportCard(await importBotCard(file));
+    } catch (err: any) {
+      alert(`Import failed: ${err?.message || err}`);
+    }
+  };
+
   return (
     <div className="h-full w-full flex flex-col p-4 bg-light-bg text-light-text dark:bg-dark-bg dark:text-dark-text">
       <header className="flex items-center mb-6 gap-2">
         <img src="https://i.postimg.cc/qRB2Gnw2/Gemini-Generated-Image-vfkohrvfkohrvfko-1.png" alt="Zia.ai Logo" className="h-8 w-8"/>
-        <h1 className="text-3xl font-bold">Your Humans</h1>
+        <h1 className="text-3xl font-bold flex-1">Your Humans</h1>
+        <label className="cursor-pointer text-sm font-bold bg-accent/80 hover:bg-accent text-white py-2 px-4 rounded-2xl transition-colors" title="Import a Zia bot card or a character card (JSON / PNG)">
+          Import
+          <input type="file" accept=".json,.png,application/json,image/png" onChange={handleImport} className="hidden" />
+        </label>
       </header>
       
       <main className="flex-1 overflow-y-auto pb-24">
@@ -29,6 +47,7 @@ const BotsPage: React.FC<BotsPageProps> = ({ bots, onSelectBot, onEditBot, onDel
                 onEdit={() => onEditBot(bot.id)}
                 onDelete={() => onDeleteBot(bot.id)}
                 onClone={() => onCloneBot(bot.id)}
+                onExport={() => onExportBot(bot.id)}
               />
             ))}
           </div>
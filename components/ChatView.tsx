@@ -1,7 +1,21 @@
 
 import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react';
-import type { User, BotProfile, ChatMessage, Persona, AIModelOption, VoicePreference } from '../types';
-import { generateBotResponse, generateUserSuggestion, resetApiState } from '../services/geminiService';
+import type { User, BotProfile, ChatMessage, Persona, AIModelOption, VoicePreference, VoiceProfile, Lorebook, ChatSummary, BotMemory, ChatTree, GroupChat, ChatThread } from '../types';
+import { generateBotResponse, generateUserSuggestion, resetApiState, type GenerateOptions } from '../services/geminiService';
+import { extractFacts, mergeFacts, retrieveMemories } from '../services/memoryService';
+import { getBranchPositions, getSiblings, type BranchPosition } from '../services/chatTree';
+import { pickNextSpeaker, toGroupContext } from '../services/groupChat';
+import { isSpeechInputSupported, startSpeechInput, type SpeechInputSession } from '../services/speechInput';
+import { getVoiceProfile, speak, stopSpeaking } from '../services/voiceService';
+import type { ThreadStats } from '../services/chatThreads';
+import { getLoreEntries, type LoreTurn } from '../services/lorebook';
+import MemoryModal from './MemoryModal';
+import LorebookModal from './LorebookModal';
+import NewChatModal from './NewChatModal';
+import ThreadSwitcher from './ThreadSwitcher';
+import MessageList from './MessageList';
+import MessageContent from './MessageContent';
+import VoiceProfileEditor from './VoiceProfileEditor';
 
 const PhotoViewer: React.FC<{ src: string; onClose: () => void }> = ({ src, onClose }) => (
     <div
@@ -15,20 +29,22 @@ const PhotoViewer: React.FC<{ src: string; onClose: () => void }> = ({ src, onCl
 
 const ChatSettingsModal: React.FC<{
     bot: BotProfile;
+    defaultVoice: VoicePreference | null;
     onClose: () => void;
-    onSave: (newBrightness: number) => void;
+    onSave: (newBrightness: number, voice: VoiceProfile) => void;
     onBrightnessChange: (newBrightness: number) => void;
     tempBrightness: number;
-}> = ({ bot, onClose, onSave, onBrightnessChange, tempBrightness }) => {
+}> = ({ bot, defaultVoice, onClose, onSave, onBrightnessChange, tempBrightness }) => {
+    const [voice, setVoice] = useState<VoiceProfile>(() => getVoiceProfile(bot));
     
     const handleSave = () => {
-        onSave(tempBrightness);
+        onSave(tempBrightness, voice);
         onClose();
     };
 
     return (
         <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 animate-fadeIn p-4" onClick={onClose}>
-            <div className="bg-dark-bg rounded-2xl shadow-2xl relative max-w-md w-full mx-auto p-6" onClick={(e) => e.stopPropagation()}>
+            <div className="bg-dark-bg rounded-2xl shadow-2xl relative max-w-md w-full mx-auto p-6 max-h-full overflow-y-auto" onClick={(e) => e.stopPropagation()}>
                 <h2 className="text-xl font-bold mb-4">Chat Settings</h2>
                 {bot.chatBackground && (
                     <div>
@@ -45,6 +61,10 @@ const ChatSettingsModal: React.FC<{
                         <div className="text-center text-xs text-gray-400 mt-1">{tempBrightness}%</div>
                     </div>
                 )}
+                <div className={bot.chatBackground ? 'mt-6' : ''}>
+                    <p className="block text-sm font-medium mb-2">{bot.name}'s Voice</p>
+                    <VoiceProfileEditor profile={voice} onChange={setVoice} botName={bot.name} defaultVoice={defaultVoice} />
+                </div>
                  <div className="flex gap-2 mt-6">
                     <button type="button" onClick={onClose} className="flex-1 bg-gray-500 text-white font-bold py-3 px-4 rounded-2xl transition-colors">Cancel</button>
                     <button type="button" onClick={handleSave} className="flex-1 bg-accent text-white font-bold py-3 px-4 rounded-2xl transition-colors">Save</button>
@@ -54,20 +74,35 @@ const ChatSettingsModal: React.FC<{
     )
 }
 
-const parseMessage = (text: string) => {
-    if (!text || typeof text !== 'string') return '';
-    const parts = text.split(/(\*.*?\*)/g);
-    return parts.map((part, index) => {
-      if (part.startsWith('*') && part.endsWith('*')) {
-        return <span key={index} className="text-accent italic">{part.slice(1, -1)}</span>;
-      }
-      return part;
-    });
-};
+// How long a pause ends your turn in hands-free mode.
+const HANDS_FREE_SILENCE_MS = 1500;
+// Hands-free mode turns itself off after this many listens in a row hear nothing.
+const HANDS_FREE_MAX_EMPTY_LISTENS = 3;
+
+interface MessageItemProps {
+  msg: ChatMessage;
+  botAvatar: string;
+  speakerName?: string; // group chats name the bot that spoke
+  userAvatar: string;
+  userAvatarAlt: string;
+  deletingMessageId: string | null;
+  copiedMessageId: string | null;
+  onCopy: (text: string, messageId: string) => void;
+  onDelete: (messageId: string) => void;
+  onPlay: (msg: ChatMessage) => void;
+  onRegenerate: (messageId: string) => void;
+  setPhotoToView: (photo: string | null) => void;
+  branch: BranchPosition | null; // position among alternates; must be stable between renders
+  onSwipe: (messageId: string, delta: number) => void;
+  onPrune: (messageId: string) => void;
+  onEdit: (messageId: string, newText: string, regenerate: boolean) => void;
+  isHighlighted: boolean;
+}
 
 const MessageItem = React.memo(({ 
     msg, 
     botAvatar, 
+    speakerName,
     userAvatar, 
     userAvatarAlt, 
     deletingMessageId, 
@@ -76,23 +111,78 @@ const MessageItem = React.memo(({
     onDelete, 
     onPlay, 
     onRegenerate, 
-    setPhotoToView 
-}: any) => {
+    setPhotoToView,
+    branch,
+    onSwipe,
+    onPrune,
+    onEdit,
+    isHighlighted
+}: MessageItemProps) => {
     const isSystem = msg.text?.includes("(System:");
+    const touchStartX = useRef<number | null>(null);
+    const [isEditing, setIsEditing] = useState(false);
+    const [draft, setDraft] = useState('');
+
+    const startEditing = () => { setDraft(msg.text); setIsEditing(true); };
+    const saveEdit = (regenerate: boolean) => {
+        if (!draft.trim()) return;
+        setIsEditing(false);
+        if (draft.trim() !== msg.text || regenerate) onEdit(msg.id, draft.trim(), regenerate);
+    };
+
+    // Horizontal swipes on the bubble step through alternates.
+    const handleTouchEnd = (e: React.TouchEvent) => {
+        if (touchStartX.current === null || !branch) return;
+        const dx = e.changedTouches[0].clientX - touchStartX.current;
+        touchStartX.current = null;
+        if (Math.abs(dx) > 60) onSwipe(msg.id, dx < 0 ? 1 : -1);
+    };
 
     return (
         <div 
-            className={`flex items-end gap-2 group ${msg.sender === 'user' ? 'justify-end' : 'justify-start'} transition-opacity duration-300 ${deletingMessageId === msg.id ? 'opacity-0' : 'opacity-100'}`}
+            className={`flex items-end gap-2 group ${msg.sender === 'user' ? 'justify-end' : 'justify-start'} transition-all duration-300 rounded-2xl ${deletingMessageId === msg.id ? 'opacity-0' : 'opacity-100'} ${isHighlighted ? 'ring-2 ring-accent bg-accent/10' : ''}`}
         >
             {msg.sender === 'bot' && !isSystem && <img src={botAvatar} alt="Bot" className="h-10 w-10 rounded-lg object-cover self-start cursor-pointer" onClick={() => setPhotoToView(botAvatar)} onError={(e) => (e.target as HTMLImageElement).style.display = 'none'} />}
             
             <div className={`flex items-center gap-2 ${msg.sender === 'user' ? 'flex-row-reverse' : 'flex-row'}`}>
-                <div className={`max-w-xs md:max-w-md lg:max-w-lg p-3 rounded-2xl ${
-                    isSystem ? 'bg-red-500/10 text-red-400 border border-red-500/20 w-full shadow-lg backdrop-blur-sm' :
-                    msg.sender === 'user' ? 'bg-accent text-white rounded-br-none' : 
-                    'bg-white/10 dark:bg-black/20 rounded-bl-none'
-                }`}>
-                    <p className="whitespace-pre-wrap">{parseMessage(msg.text)}</p>
+                <div className={`flex flex-col gap-1 ${msg.sender === 'user' ? 'items-end' : 'items-start'}`}>
+                    {speakerName && !isSystem && <span className="text-xs font-bold text-accent ml-1">{speakerName}</span>}
+                    <div
+                        onTouchStart={(e) => { touchStartX.current = e.touches[0].clientX; }}
+                        onTouchEnd={handleTouchEnd}
+                        className={`max-w-xs md:max-w-md lg:max-w-lg p-3 rounded-2xl ${
+                        isSystem ? 'bg-red-500/10 text-red-400 border border-red-500/20 w-full shadow-lg backdrop-blur-sm' :
+                        msg.sender === 'user' ? 'bg-accent text-white rounded-br-none' : 
+                        'bg-white/10 dark:bg-black/20 rounded-bl-none'
+                    }`}>
+                        {isEditing ? (
+                            <div className="flex flex-col gap-2 min-w-[16rem]">
+                                <textarea
+                                    value={draft}
+                                    onChange={(e) => setDraft(e.target.value)}
+                                    onKeyDown={(e) => { if (e.key === 'Escape') setIsEditing(false); }}
+                                    rows={Math.min(8, Math.max(2, draft.split('\n').length))}
+                                    autoFocus
+                                    className="w-full bg-black/20 p-2 rounded-lg border border-white/20 focus:outline-none focus:ring-2 focus:ring-white/50 resize-none"
+                                />
+                                <div className="flex flex-wrap justify-end gap-2 text-xs font-bold">
+                                    <button onClick={() => setIsEditing(false)} className="px-3 py-1 rounded-lg bg-black/30 hover:bg-black/50">Cancel</button>
+                                    <button onClick={() => saveEdit(false)} className="px-3 py-1 rounded-lg bg-black/30 hover:bg-black/50">Save only</button>
+                                    {msg.sender === 'user' && <button onClick={() => saveEdit(true)} className="px-3 py-1 rounded-lg bg-white text-accent hover:bg-white/80">Save & regenerate</button>}
+                                </div>
+                            </div>
+                        ) : (
+                            <MessageContent text={msg.text} foldable={!isSystem} />
+                        )}
+                    </div>
+                    {branch && (
+                        <div className="flex items-center gap-1 text-xs text-gray-400 select-none">
+                            <button onClick={() => onSwipe(msg.id, -1)} disabled={branch.index === 0} className="px-1.5 rounded hover:text-accent disabled:opacity-30" aria-label="Previous alternate">&lsaquo;</button>
+                            <span>{branch.index + 1}/{branch.count}</span>
+                            <button onClick={() => onSwipe(msg.id, 1)} disabled={branch.index === branch.count - 1} className="px-1.5 rounded hover:text-accent disabled:opacity-30" aria-label="Next alternate">&rsaquo;</button>
+                            <button onClick={() => onPrune(msg.id)} className="ml-1 px-1.5 rounded hover:text-red-400" aria-label="Delete this branch" title="Delete this branch">&times;</button>
+                        </div>
+                    )}
                 </div>
                  {msg.sender === 'user' && !isSystem && (
                     <div className="flex flex-col gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
@@ -103,6 +193,9 @@ const MessageItem = React.memo(({
                                 <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" /></svg>
                             )}
                         </button>
+                        <button onClick={startEditing} className="p-1 rounded-full bg-black/30 hover:bg-accent" aria-label="Edit message">
+                            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" /></svg>
+                        </button>
                         <button onClick={() => onDelete(msg.id)} className="p-1 rounded-full bg-black/30 hover:bg-red-500" aria-label="Delete message">
                            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
                         </button>
@@ -110,8 +203,9 @@ const MessageItem = React.memo(({
                 )}
                 {msg.sender === 'bot' && (
                     <div className="flex flex-col gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                        {!isSystem && <button onClick={() => onPlay(msg.text)} className="p-1 rounded-full bg-black/30 hover:bg-accent" aria-label="Play voice"><svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.108 12 5v14c0 .892-1.077 1.337-1.707.707L5.586 15z" /></svg></button>}
+                        {!isSystem && <button onClick={() => onPlay(msg)} className="p-1 rounded-full bg-black/30 hover:bg-accent" aria-label="Play voice"><svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.108 12 5v14c0 .892-1.077 1.337-1.707.707L5.586 15z" /></svg></button>}
                         {!isSystem && <button onClick={() => onRegenerate(msg.id)} className="p-1 rounded-full bg-black/30 hover:bg-accent" aria-label="Regenerate response"><svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z" /></svg></button>}
+                        {!isSystem && <button onClick={startEditing} className="p-1 rounded-full bg-black/30 hover:bg-accent" aria-label="Edit message"><svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" /></svg></button>}
                         <button onClick={() => onDelete(msg.id)} className="p-1 rounded-full bg-black/30 hover:bg-red-500" aria-label="Delete message">
                            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
                         </button>
@@ -135,21 +229,54 @@ interface ChatViewProps {
   voicePreference: VoicePreference | null;
   onEdit: (id: string) => void;
   currentUser: User;
-  logSession: (startTime: number, botId: string) => void;
+  logSession: (startTime: number, botId: string, threadId: string) => void;
   updateGeminiUsage: (modelId: string, isQuotaExceeded: boolean) => void;
   botReplyDelay: number;
+  summary: ChatSummary | null;
+  onUpdateSummary: (summary: ChatSummary) => void;
+  memories: BotMemory[];
+  onUpdateMemories: (memories: BotMemory[]) => void;
+  chatTree: ChatTree | null;
+  onSelectBranch: (messageId: string) => void;
+  onPruneBranch: (messageId: string) => void;
+  onExportBot: (id: string) => void;
+  participants: BotProfile[]; // host first; just the host outside group chats
+  group: GroupChat | null;
+  otherBots: BotProfile[];
+  threads: ChatThread[];
+  activeThreadId: string;
+  threadStats: Record<string, ThreadStats>;
+  onSelectThread: (threadId: string) => void;
+  onRenameThread: (threadId: string, name: string) => void;
+  onArchiveThread: (threadId: string, archived: boolean) => void;
+  onNewThread: (name: string, group: GroupChat | null) => void;
+  focusMessageId: string | null; // scroll here instead of to the bottom (search results)
+  onFocusHandled: () => void;
+  lorebook: Lorebook;
+  onUpdateLorebook: (lorebook: Lorebook) => void;
 }
 
-const ChatView: React.FC<ChatViewProps> = ({ bot, onBack, chatHistory, onNewMessage, onUpdateHistory, onUpdateBot, selectedAI, voicePreference, onEdit, currentUser, logSession, updateGeminiUsage, botReplyDelay }) => {
+// Replies kept in the lorebook's "fired per reply" view.
+const LORE_LOG_LIMIT = 20;
+
+const ChatView: React.FC<ChatViewProps> = ({ bot, onBack, chatHistory, onNewMessage, onUpdateHistory, onUpdateBot, selectedAI, voicePreference, onEdit, currentUser, logSession, updateGeminiUsage, botReplyDelay, summary, onUpdateSummary, memories, onUpdateMemories, chatTree, onSelectBranch, onPruneBranch, onExportBot, participants, group, otherBots, threads, activeThreadId, threadStats, onSelectThread, onRenameThread, onArchiveThread, onNewThread, focusMessageId, onFocusHandled, lorebook, onUpdateLorebook }) => {
   const [input, setInput] = useState('');
   const [isTyping, setIsTyping] = useState(false);
   const [thinkingText, setThinkingText] = useState('');
-  const messagesEndRef = useRef<HTMLDivElement>(null);
-  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+  const [streamingText, setStreamingText] = useState('');
   const [photoToView, setPhotoToView] = useState<string | null>(null);
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const [isMediaMenuOpen, setIsMediaMenuOpen] = useState(false);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isMemoryOpen, setIsMemoryOpen] = useState(false);
+  const [isLorebookOpen, setIsLorebookOpen] = useState(false);
+  const [loreTurns, setLoreTurns] = useState<LoreTurn[]>([]);
+  const [isNewChatOpen, setIsNewChatOpen] = useState(false);
+  const [isThreadsOpen, setIsThreadsOpen] = useState(false);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const [isListening, setIsListening] = useState(false);
+  const [isHandsFree, setIsHandsFree] = useState(false);
+  const [typingSpeaker, setTypingSpeaker] = useState<BotProfile | null>(null);
   const [tempBrightness, setTempBrightness] = useState(bot.chatBackgroundBrightness ?? 100);
   const [copySuccess, setCopySuccess] = useState(false);
   const [copyConvoSuccess, setCopyConvoSuccess] = useState(false);
@@ -160,6 +287,12 @@ const ChatView: React.FC<ChatViewProps> = ({ bot, onBack, chatHistory, onNewMess
   const menuRef = useRef<HTMLDivElement>(null);
   const mediaMenuRef = useRef<HTMLDivElement>(null);
   const isMounted = useRef(true);
+  const hasStreamedRef = useRef(false);
+  const speechSupported = useMemo(isSpeechInputSupported, []);
+  const recognitionRef = useRef<SpeechInputSession | null>(null);
+  const handsFreeRef = useRef(false);
+  const awaitingReplyRef = useRef(false);
+  const emptyListensRef = useRef(0);
 
   useEffect(() => {
     isMounted.current = true;
@@ -186,27 +319,29 @@ const ChatView: React.FC<ChatViewProps> = ({ bot, onBack, chatHistory, onNewMess
   }, [isTyping]);
   
   const botAvatar = bot.photo; 
+  const isGroup = participants.length > 1;
+  const activeThread = threads.find(t => t.id === activeThreadId);
   const userAvatar = bot.persona?.photo || currentUser.photoUrl; 
   const userAvatarAlt = bot.persona?.name || currentUser.name || 'User';
 
   useEffect(() => {
     const startTime = Date.now();
-    return () => { logSession(startTime, bot.id); };
-  }, [bot.id, logSession]);
+    return () => { logSession(startTime, bot.id, activeThreadId); };
+  }, [bot.id, activeThreadId, logSession]);
 
+  // MessageList scrolls to the message; this only flashes it.
   useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [chatHistory, isTyping]);
-  
+    if (!focusMessageId) return;
+    setHighlightedMessageId(focusMessageId);
+    onFocusHandled();
+  }, [focusMessageId, onFocusHandled]);
+
   useEffect(() => {
-    const loadVoices = () => {
-        const availableVoices = window.speechSynthesis.getVoices();
-        if(availableVoices.length > 0) setVoices(availableVoices);
-    };
-    loadVoices();
-    window.speechSynthesis.onvoiceschanged = loadVoices;
-    return () => { window.speechSynthesis.onvoiceschanged = null; };
-  }, []);
+    if (!highlightedMessageId) return;
+    const timer = setTimeout(() => setHighlightedMessageId(null), 2500);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId]);
+  
 
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -222,22 +357,71 @@ const ChatView: React.FC<ChatViewProps> = ({ bot, onBack, chatHistory, onNewMess
   }, []);
 
 
-  const handlePlayVoice = useCallback((text: string) => {
-    if (!text || text.includes("(System:")) return;
-    window.speechSynthesis.cancel();
-    const utterance = new SpeechSynthesisUtterance(text);
-    if (voicePreference && voices.length > 0) {
-        const desiredVoice = voices.find(v => v.name === voicePreference) || 
-                             voices.find(v => voicePreference && v.name.toLowerCase().includes(voicePreference)) || 
-                             voices[0];
-        utterance.voice = desiredVoice || voices[0];
-    }
-    window.speechSynthesis.speak(utterance);
-  }, [voicePreference, voices]);
 
 
+  // Streamed replies fill the typing bubble as they arrive instead of the thinking label.
+  const handleStreamChunk = useCallback((partialText: string) => {
+    hasStreamedRef.current = true;
+    if (isMounted.current) setStreamingText(partialText);
+  }, []);
+
+  // Shared by every generation path; memories are ranked against the last few turns.
+  const buildGenerateOptions = useCallback((history: ChatMessage[], speaker: BotProfile): GenerateOptions => ({
+      onChunk: handleStreamChunk,
+      summary,
+      onSummaryUpdate: onUpdateSummary,
+      memories: retrieveMemories(memories, history.slice(-4).map(m => m.text).join(' ')).map(m => m.text),
+      group: isGroup ? { ...toGroupContext(bot.id, participants), speakerId: speaker.id } : undefined,
+      lore: {
+          entries: getLoreEntries(lorebook, speaker.id, bot.personaId),
+          tokenBudget: lorebook.tokenBudget,
+          onMatch: (match) => {
+              if (isMounted.current) setLoreTurns(prev => [{ at: Date.now(), speakerName: speaker.name, match }, ...prev].slice(0, LORE_LOG_LIMIT));
+          }
+      }
+  }), [handleStreamChunk, summary, onUpdateSummary, memories, isGroup, bot.id, bot.personaId, participants, lorebook]);
+
+  // Who said a message. Bots that have since left the group still show with their own face.
+  const findSpeaker = useCallback((speakerId?: string): BotProfile =>
+      participants.find(p => p.id === (speakerId || bot.id)) || otherBots.find(b => b.id === speakerId) || bot,
+  [participants, otherBots, bot]);
+
+  // Reads a message in its speaker's voice. `onEnd` also runs when there is nothing to read,
+  // so the hands-free loop never stalls.
+  const handlePlayVoice = useCallback((msg: ChatMessage, onEnd?: () => void) => {
+    if (!msg.text || msg.text.includes("(System:")) { onEnd?.(); return; }
+    speak({ text: msg.text, profile: getVoiceProfile(findSpeaker(msg.speakerId)), fallbackVoice: voicePreference, messageId: msg.id }, onEnd);
+  }, [findSpeaker, voicePreference]);
+
+  // New replies are read aloud when their bot has auto-read on; opening a chat reads nothing.
+  const lastReadMessageId = useRef(chatHistory[chatHistory.length - 1]?.id);
+  useEffect(() => {
+    const last = chatHistory[chatHistory.length - 1];
+    if (isTyping || !last || last.id === lastReadMessageId.current) return;
+    lastReadMessageId.current = last.id;
+    // Hands-free mode reads replies itself.
+    if (last.sender !== 'bot' || handsFreeRef.current) return;
+    if (getVoiceProfile(findSpeaker(last.speakerId)).autoRead) handlePlayVoice(last);
+  }, [chatHistory, isTyping, findSpeaker, handlePlayVoice]);
+
+  // Solo chats always answer with the chat's own bot.
+  const pickSpeaker = useCallback(async (history: ChatMessage[]): Promise<BotProfile> => {
+      const speaker = isGroup ? await pickNextSpeaker(group?.turnPolicy || 'round-robin', participants, history, selectedAI) : bot;
+      if (isMounted.current) setTypingSpeaker(speaker);
+      return speaker;
+  }, [isGroup, group, participants, selectedAI, bot]);
+
+  const speakerFields = (speaker: BotProfile) => ({ name: speaker.name, personality: speaker.personality, conversationMode: speaker.conversationMode, gender: speaker.gender });
+  const speakerTag = (speaker: BotProfile) => speaker.id !== bot.id ? { speakerId: speaker.id } : {};
+
   const handleSend = async (messageText: string) => {
     if (!messageText.trim()) return;
+    // Sending ends dictation, so late results don't refill the box.
+    if (!handsFreeRef.current && recognitionRef.current) {
+      recognitionRef.current.abort();
+      recognitionRef.current = null;
+      setIsListening(false);
+    }
 
     const userMessage: ChatMessage = {
       id: `user-${Date.now()}`,
@@ -249,26 +433,27 @@ const ChatView: React.FC<ChatViewProps> = ({ bot, onBack, chatHistory, onNewMess
     const newHistory = [...chatHistory, userMessage];
     onUpdateHistory(newHistory);
     setInput('');
+
+    const facts = extractFacts(userMessage);
+    if (facts.length > 0) onUpdateMemories(mergeFacts(memories, facts));
     setIsTyping(true);
+    hasStreamedRef.current = false;
 
     try {
+      const speaker = await pickSpeaker(newHistory);
       const botResponseText = await generateBotResponse(
           newHistory, 
-          { 
-              name: bot.name,
-              personality: bot.personality, 
-              isSpicy: bot.isSpicy,
-              conversationMode: bot.conversationMode,
-              gender: bot.gender
-          }, 
+          speakerFields(speaker), 
           selectedAI,
           () => updateGeminiUsage(selectedAI, false),
-          () => updateGeminiUsage(selectedAI, true)
+          () => updateGeminiUsage(selectedAI, true),
+          buildGenerateOptions(newHistory, speaker)
       );
 
       setIsTyping(false);
+      setStreamingText('');
 
-      if (isMounted.current && botReplyDelay > 0 && !botResponseText.includes("(System:")) {
+      if (isMounted.current && botReplyDelay > 0 && !hasStreamedRef.current && !botResponseText.includes("(System:")) {
           await new Promise(resolve => setTimeout(resolve, botReplyDelay * 1000));
       }
 
@@ -278,6 +463,7 @@ const ChatView: React.FC<ChatViewProps> = ({ bot, onBack, chatHistory, onNewMess
           text: botResponseText,
           sender: 'bot',
           timestamp: Date.now(),
+          ...speakerTag(speaker),
         };
         onNewMessage(finalBotMessage);
       }
@@ -293,32 +479,111 @@ const ChatView: React.FC<ChatViewProps> = ({ bot, onBack, chatHistory, onNewMess
         });
       }
     } finally {
-      if (isMounted.current) setIsTyping(false);
+      if (isMounted.current) { setIsTyping(false); setStreamingText(''); }
+    }
+  };
+
+  // Voice input. Dictation adds to whatever is typed; hands-free sends after a pause,
+  // reads the reply aloud and then listens again, like a call.
+  const handleSendRef = useRef(handleSend);
+  handleSendRef.current = handleSend;
+  const inputRef = useRef(input);
+  inputRef.current = input;
+
+  const stopHandsFree = useCallback(() => {
+    handsFreeRef.current = false;
+    awaitingReplyRef.current = false;
+    setIsHandsFree(false);
+    recognitionRef.current?.abort();
+    recognitionRef.current = null;
+    setIsListening(false);
+    stopSpeaking();
+  }, []);
+
+  const startListening = useCallback((handsFree: boolean) => {
+    recognitionRef.current?.abort();
+    const base = handsFree ? '' : inputRef.current.trim();
+    try {
+      recognitionRef.current = startSpeechInput({
+        onTranscript: (text) => setInput(base && text ? `${base} ${text}` : base || text),
+        onEnd: (text) => {
+          recognitionRef.current = null;
+          setIsListening(false);
+          if (!handsFree || !handsFreeRef.current) return;
+          if (!text) {
+            // A silent room shouldn't keep the mic open forever.
+            if (++emptyListensRef.current >= HANDS_FREE_MAX_EMPTY_LISTENS) stopHandsFree();
+            else startListening(true);
+            return;
+          }
+          emptyListensRef.current = 0;
+          setInput('');
+          awaitingReplyRef.current = true;
+          handleSendRef.current(text);
+        },
+        onError: (message) => {
+          recognitionRef.current = null;
+          stopHandsFree();
+          alert(message);
+        },
+      }, { silenceMs: handsFree ? HANDS_FREE_SILENCE_MS : 0 });
+      setIsListening(true);
+    } catch (error: any) {
+      stopHandsFree();
+      alert(error?.message || 'Voice input could not start.');
     }
+  }, [stopHandsFree]);
+
+  const handleMicClick = () => {
+    if (isListening) { recognitionRef.current?.stop(); return; }
+    startListening(false);
   };
 
+  const handleToggleHandsFree = () => {
+    setIsMediaMenuOpen(false);
+    if (handsFreeRef.current) { stopHandsFree(); return; }
+    stopSpeaking();
+    handsFreeRef.current = true;
+    emptyListensRef.current = 0;
+    setIsHandsFree(true);
+    startListening(true);
+  };
+
+  // The reply to a spoken message is read aloud, then the mic opens again.
+  useEffect(() => {
+    if (!awaitingReplyRef.current || isTyping) return;
+    const last = chatHistory[chatHistory.length - 1];
+    if (!last || last.sender !== 'bot') return;
+    awaitingReplyRef.current = false;
+    if (!handsFreeRef.current) return;
+    handlePlayVoice(last, () => { if (handsFreeRef.current) startListening(true); });
+  }, [chatHistory, isTyping, handlePlayVoice, startListening]);
+
+  useEffect(() => () => {
+    handsFreeRef.current = false;
+    recognitionRef.current?.abort();
+  }, []);
+
   const handleContinue = useCallback(async () => {
     if (isTyping) return;
     setIsTyping(true);
+    hasStreamedRef.current = false;
 
     try {
+      const speaker = await pickSpeaker(chatHistory);
       const botResponseText = await generateBotResponse(
           chatHistory, 
-          { 
-              name: bot.name,
-              personality: bot.personality, 
-              isSpicy: bot.isSpicy,
-              conversationMode: bot.conversationMode,
-              gender: bot.gender
-          }, 
+          speakerFields(speaker), 
           selectedAI,
           () => updateGeminiUsage(selectedAI, false),
-          () => updateGeminiUsage(selectedAI, true)
+          () => updateGeminiUsage(selectedAI, true),
+          buildGenerateOptions(chatHistory, speaker)
       );
 
       setIsTyping(false);
+      setStreamingText('');
 
-      if (isMounted.current && botReplyDelay > 0 && !botResponseText.includes("(System:")) {
+      if (isMounted.current && botReplyDelay > 0 && !hasStreamedRef.current && !botResponseText.includes("(System:")) {
           await new Promise(resolve => setTimeout(resolve, botReplyDelay * 1000));
       }
 
@@ -328,6 +593,7 @@ const ChatView: React.FC<ChatViewProps> = ({ bot, onBack, chatHistory, onNewMess
           text: botResponseText,
           sender: 'bot',
           timestamp: Date.now(),
+          ...speakerTag(speaker),
         };
         onNewMessage(finalBotMessage);
       }
@@ -343,9 +609,9 @@ const ChatView: React.FC<ChatViewProps> = ({ bot, onBack, chatHistory, onNewMess
         });
       }
     } finally {
-      if (isMounted.current) setIsTyping(false);
+      if (isMounted.current) { setIsTyping(false); setStreamingText(''); }
     }
-  }, [chatHistory, bot, selectedAI, updateGeminiUsage, botReplyDelay, isTyping, isMounted, onNewMessage]);
+  }, [chatHistory, bot, selectedAI, updateGeminiUsage, botReplyDelay, isTyping, isMounted, onNewMessage, buildGenerateOptions, pickSpeaker]);
 
   const handleSuggest = async () => {
     if (isGeneratingSuggestion || isTyping) return;
@@ -380,6 +646,9 @@ const ChatView: React.FC<ChatViewProps> = ({ bot, onBack, chatHistory, onNewMess
       setTimeout(() => {
         const newHistory = chatHistory.filter(m => m.id !== messageId);
         onUpdateHistory(newHistory);
+        // The summary still covers the deleted turn; the message before it becomes its anchor.
+        const previous = chatHistory[chatHistory.findIndex(m => m.id === messageId) - 1];
+        if (summary?.coveredUntilId === messageId && previous) onUpdateSummary({ ...summary, coveredUntilId: previous.id });
         setDeletingMessageId(null);
         
         // Deleting system error clears associated provider state (quota, error flags)
@@ -387,43 +656,106 @@ const ChatView: React.FC<ChatViewProps> = ({ bot, onBack, chatHistory, onNewMess
           resetApiState();
         }
       }, 300);
-  }, [chatHistory, onUpdateHistory]);
+  }, [chatHistory, onUpdateHistory, summary, onUpdateSummary]);
   
   const handleRegenerateMessage = useCallback(async (messageId: string) => {
       const messageIndex = chatHistory.findIndex(m => m.id === messageId);
       if (messageIndex === -1 || chatHistory[messageIndex].sender !== 'bot') return;
 
       const historyForRegen = chatHistory.slice(0, messageIndex);
+      // An alternate reply comes from the same speaker.
+      const speaker = findSpeaker(chatHistory[messageIndex].speakerId);
+      setTypingSpeaker(speaker);
       setIsTyping(true);
+      hasStreamedRef.current = false;
       try {
           const botResponseText = await generateBotResponse(
               historyForRegen, 
-              { 
-                  name: bot.name,
-                  personality: bot.personality, 
-                  isSpicy: bot.isSpicy,
-                  conversationMode: bot.conversationMode,
-                  gender: bot.gender
-              }, 
+              speakerFields(speaker), 
               selectedAI,
               () => updateGeminiUsage(selectedAI, false),
-              () => updateGeminiUsage(selectedAI, true)
+              () => updateGeminiUsage(selectedAI, true),
+              buildGenerateOptions(historyForRegen, speaker)
           );
           
           setIsTyping(false);
+          setStreamingText('');
 
-          if (isMounted.current && botReplyDelay > 0 && !botResponseText.includes("(System:")) {
+          if (isMounted.current && botReplyDelay > 0 && !hasStreamedRef.current && !botResponseText.includes("(System:")) {
               await new Promise(resolve => setTimeout(resolve, botReplyDelay * 1000));
           }
 
+          // The new reply is an alternate: the old one and everything after it stay reachable as a branch.
           if (isMounted.current) {
-            const newHistory = [...chatHistory];
-            newHistory[messageIndex] = { ...newHistory[messageIndex], text: botResponseText, timestamp: Date.now() };
-            onUpdateHistory(newHistory);
+            onUpdateHistory([...historyForRegen, { id: `bot-${Date.now()}`, text: botResponseText, sender: 'bot', timestamp: Date.now(), ...speakerTag(speaker) }]);
           }
       } catch (error) { console.error("Regeneration error:", error);
-      } finally { if (isMounted.current) setIsTyping(false); }
-  }, [chatHistory, bot, selectedAI, onUpdateHistory, updateGeminiUsage, botReplyDelay]);
+      } finally { if (isMounted.current) { setIsTyping(false); setStreamingText(''); } }
+  }, [chatHistory, bot, selectedAI, onUpdateHistory, updateGeminiUsage, botReplyDelay, buildGenerateOptions, findSpeaker]);
+
+  // "Save only" edits in place. "Save & regenerate" forks: the edited message becomes a new
+  // branch and gets a fresh reply, while the original continuation stays reachable.
+  const handleEditMessage = useCallback(async (messageId: string, newText: string, regenerate: boolean) => {
+      const messageIndex = chatHistory.findIndex(m => m.id === messageId);
+      if (messageIndex === -1) return;
+      const edited: ChatMessage = { ...chatHistory[messageIndex], text: newText };
+
+      if (edited.sender === 'user') {
+          const facts = extractFacts(edited);
+          if (facts.length > 0) onUpdateMemories(mergeFacts(memories, facts));
+      }
+
+      if (!regenerate || edited.sender !== 'user') {
+          const newHistory = [...chatHistory];
+          newHistory[messageIndex] = edited;
+          onUpdateHistory(newHistory);
+          return;
+      }
+      if (isTyping) return;
+
+      const forkedHistory = [...chatHistory.slice(0, messageIndex), { ...edited, id: `user-${Date.now()}`, timestamp: Date.now() }];
+      onUpdateHistory(forkedHistory);
+      setIsTyping(true);
+      hasStreamedRef.current = false;
+      try {
+          const speaker = await pickSpeaker(forkedHistory);
+          const botResponseText = await generateBotResponse(
+              forkedHistory,
+              speakerFields(speaker),
+              selectedAI,
+              () => updateGeminiUsage(selectedAI, false),
+              () => updateGeminiUsage(selectedAI, true),
+              buildGenerateOptions(forkedHistory, speaker)
+          );
+
+          setIsTyping(false);
+          setStreamingText('');
+
+          if (isMounted.current && botReplyDelay > 0 && !hasStreamedRef.current && !botResponseText.includes("(System:")) {
+              await new Promise(resolve => setTimeout(resolve, botReplyDelay * 1000));
+          }
+
+          if (isMounted.current) {
+            onUpdateHistory([...forkedHistory, { id: `bot-${Date.now()}`, text: botResponseText, sender: 'bot', timestamp: Date.now(), ...speakerTag(speaker) }]);
+          }
+      } catch (error) { console.error("Edit regeneration error:", error);
+      } finally { if (isMounted.current) { setIsTyping(false); setStreamingText(''); } }
+  }, [chatHistory, bot, selectedAI, onUpdateHistory, updateGeminiUsage, botReplyDelay, buildGenerateOptions, isTyping, memories, onUpdateMemories, pickSpeaker]);
+
+  // Position among alternates; stable per tree so memoized messages don't re-render.
+  const branchPositions = useMemo(() => chatTree ? getBranchPositions(chatTree) : new Map<string, BranchPosition>(), [chatTree]);
+
+  const handleSwipe = useCallback((messageId: string, delta: number) => {
+      if (!chatTree || isTyping) return;
+      const siblings = getSiblings(chatTree, messageId);
+      const target = siblings[siblings.indexOf(messageId) + delta];
+      if (target) onSelectBranch(target);
+  }, [chatTree, isTyping, onSelectBranch]);
+
+  const handlePruneBranch = useCallback((messageId: string) => {
+      if (isTyping || !window.confirm("Delete this branch and every message after it?")) return;
+      onPruneBranch(messageId);
+  }, [isTyping, onPruneBranch]);
 
   const handleEditClick = useCallback((e: React.MouseEvent | React.PointerEvent) => {
     e.preventDefault(); e.stopPropagation();
@@ -440,10 +772,13 @@ const ChatView: React.FC<ChatViewProps> = ({ bot, onBack, chatHistory, onNewMess
   const handleNewChatClick = useCallback((e: React.MouseEvent | React.PointerEvent) => {
     e.preventDefault(); e.stopPropagation();
     setIsMenuOpen(false);
-    setTimeout(() => {
-        onUpdateHistory([]); 
-    }, 200);
-  }, [onUpdateHistory]);
+    setIsNewChatOpen(true);
+  }, []);
+
+  const handleStartNewChat = useCallback((name: string, newGroup: GroupChat | null) => {
+    setIsNewChatOpen(false);
+    onNewThread(name, newGroup);
+  }, [onNewThread]);
 
   const handleCopyPrompt = useCallback((e: React.MouseEvent | React.PointerEvent) => {
     e.preventDefault(); e.stopPropagation();
@@ -472,8 +807,26 @@ const ChatView: React.FC<ChatViewProps> = ({ bot, onBack, chatHistory, onNewMess
     setIsMenuOpen(false);
   }, [bot.chatBackgroundBrightness]);
   
-  const handleSaveSettings = (newBrightness: number) => {
-    onUpdateBot({ ...bot, chatBackgroundBrightness: newBrightness });
+  const handleExportClick = useCallback((e: React.MouseEvent | React.PointerEvent) => {
+    e.preventDefault(); e.stopPropagation();
+    setIsMenuOpen(false);
+    onExportBot(bot.id);
+  }, [onExportBot, bot.id]);
+
+  const handleOpenMemories = useCallback((e: React.MouseEvent | React.PointerEvent) => {
+    e.preventDefault(); e.stopPropagation();
+    setIsMemoryOpen(true);
+    setIsMenuOpen(false);
+  }, []);
+
+  const handleOpenLorebook = useCallback((e: React.MouseEvent | React.PointerEvent) => {
+    e.preventDefault(); e.stopPropagation();
+    setIsLorebookOpen(true);
+    setIsMenuOpen(false);
+  }, []);
+
+  const handleSaveSettings = (newBrightness: number, voice: VoiceProfile) => {
+    onUpdateBot({ ...bot, chatBackgroundBrightness: newBrightness, voice });
   };
   
   const handleOpenGallery = () => { 
@@ -496,12 +849,53 @@ const ChatView: React.FC<ChatViewProps> = ({ bot, onBack, chatHistory, onNewMess
         {isSettingsOpen && (
             <ChatSettingsModal 
                 bot={bot}
+                defaultVoice={voicePreference}
                 onClose={() => setIsSettingsOpen(false)}
                 onSave={handleSaveSettings}
                 onBrightnessChange={setTempBrightness}
                 tempBrightness={tempBrightness}
             />
         )}
+        {isMemoryOpen && (
+            <MemoryModal
+                botName={bot.name}
+                memories={memories}
+                onChange={onUpdateMemories}
+                onClose={() => setIsMemoryOpen(false)}
+            />
+        )}
+        {isLorebookOpen && (
+            <LorebookModal
+                botId={bot.id}
+                botName={bot.name}
+                personaId={bot.personaId}
+                lorebook={lorebook}
+                onChange={onUpdateLorebook}
+                turns={loreTurns}
+                onClose={() => setIsLorebookOpen(false)}
+            />
+        )}
+        {isNewChatOpen && (
+            <NewChatModal
+                host={bot}
+                otherBots={otherBots}
+                group={group}
+                onStart={handleStartNewChat}
+                onClose={() => setIsNewChatOpen(false)}
+            />
+        )}
+        {isThreadsOpen && (
+            <ThreadSwitcher
+                threads={threads}
+                activeThreadId={activeThreadId}
+                stats={threadStats}
+                onSelect={(id) => { setIsThreadsOpen(false); if (id !== activeThreadId) onSelectThread(id); }}
+                onRename={onRenameThread}
+                onArchive={onArchiveThread}
+                onNew={() => { setIsThreadsOpen(false); setIsNewChatOpen(true); }}
+                onClose={() => setIsThreadsOpen(false)}
+            />
+        )}
         {bot.chatBackground && (
             <div 
               style={{
@@ -517,8 +911,16 @@ const ChatView: React.FC<ChatViewProps> = ({ bot, onBack, chatHistory, onNewMess
           <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" /></svg>
         </button>
         <img src={botAvatar} alt={bot.name} className="h-10 w-10 rounded-lg object-cover ml-4 cursor-pointer" onClick={() => setPhotoToView(botAvatar)} onError={(e) => (e.target as HTMLImageElement).src = 'https://via.placeholder.com/40'} />
-        <div className="ml-3 flex-1">
-          <h2 className="font-bold">{bot.name}</h2>
+        {isGroup && (
+          <div className="flex -space-x-3 -ml-3">
+            {participants.slice(1, 4).map(p => <img key={p.id} src={p.photo} alt={p.name} className="h-8 w-8 rounded-lg object-cover border-2 border-dark-bg" />)}
+          </div>
+        )}
+        <div className="ml-3 flex-1 min-w-0">
+          <h2 className="font-bold truncate">{isGroup ? participants.map(p => p.name).join(', ') : bot.name}</h2>
+          <button onClick={() => setIsThreadsOpen(true)} className="block max-w-full text-left text-[10px] text-gray-400 hover:text-accent truncate transition-colors">
+            {isGroup ? `Group chat · ${participants.length} bots · ` : ''}{activeThread?.name || 'Threads'} ▾
+          </button>
         </div>
         <div className="text-sm text-gray-400 mr-2">ziaakia</div>
         <div className="relative" ref={menuRef}>
@@ -530,7 +932,10 @@ const ChatView: React.FC<ChatViewProps> = ({ bot, onBack, chatHistory, onNewMess
                     <button onPointerDown={handleEditClick} className="w-full text-left px-4 py-3 text-sm text-white hover:bg-accent transition-colors">Edit Human</button>
                     <button onPointerDown={handlePersonaClick} className="w-full text-left px-4 py-3 text-sm text-white hover:bg-accent transition-colors border-t border-white/5">Persona</button>
                     <button onPointerDown={handleOpenSettings} className="w-full text-left px-4 py-3 text-sm text-white hover:bg-accent transition-colors border-t border-white/5">Chat Settings</button>
+                    <button onPointerDown={handleOpenMemories} className="w-full text-left px-4 py-3 text-sm text-white hover:bg-accent transition-colors border-t border-white/5">Memories{memories.length > 0 ? ` (${memories.length})` : ''}</button>
+                    <button onPointerDown={handleOpenLorebook} className="w-full text-left px-4 py-3 text-sm text-white hover:bg-accent transition-colors border-t border-white/5">Lorebook</button>
                     <button onPointerDown={handleCopyConversation} className="w-full text-left px-4 py-3 text-sm text-white hover:bg-accent transition-colors border-t border-white/5">{copyConvoSuccess ? 'Copied!' : 'Copy Conversation'}</button>
+                    <button onPointerDown={handleExportClick} className="w-full text-left px-4 py-3 text-sm text-white hover:bg-accent transition-colors border-t border-white/5">Export Bot Card</button>
                     <button onPointerDown={handleCopyPrompt} className="w-full text-left px-4 py-3 text-sm text-white hover:bg-accent transition-colors border-t border-white/5">{copySuccess ? 'Copied!' : 'Copy Prompt'}</button>
                     <button onPointerDown={handleNewChatClick} className="w-full text-left px-4 py-3 text-sm text-white hover:bg-accent transition-colors border-t border-white/5">Start New Chat</button>
                 </div>
@@ -538,12 +943,16 @@ const ChatView: React.FC<ChatViewProps> = ({ bot, onBack, chatHistory, onNewMess
         </div>
       </header>
 
-      <main className="flex-1 overflow-y-auto p-4 space-y-1 z-10 no-scrollbar">
-        {chatHistory.map((msg) => (
+      <MessageList
+        messages={chatHistory}
+        focusMessageId={focusMessageId}
+        renderMessage={(msg) => {
+          const speaker = msg.sender === 'bot' ? findSpeaker(msg.speakerId) : bot;
+          return (
             <MessageItem 
-                key={msg.id}
                 msg={msg}
-                botAvatar={botAvatar}
+                botAvatar={speaker.photo}
+                speakerName={isGroup && msg.sender === 'bot' ? speaker.name : undefined}
                 userAvatar={userAvatar}
                 userAvatarAlt={userAvatarAlt}
                 deletingMessageId={deletingMessageId}
@@ -553,23 +962,38 @@ const ChatView: React.FC<ChatViewProps> = ({ bot, onBack, chatHistory, onNewMess
                 onPlay={handlePlayVoice}
                 onRegenerate={handleRegenerateMessage}
                 setPhotoToView={setPhotoToView}
+                branch={branchPositions.get(msg.id) || null}
+                onSwipe={handleSwipe}
+                onPrune={handlePruneBranch}
+                onEdit={handleEditMessage}
+                isHighlighted={highlightedMessageId === msg.id}
             />
-        ))}
-
-        {isTyping && (
+          );
+        }}
+        footer={isTyping && (
           <div className="flex items-end gap-2 justify-start animate-fadeIn">
-            <img src={botAvatar} alt={bot.name} className="h-10 w-10 rounded-lg object-cover" />
-            <div className="max-w-xs p-3 rounded-2xl bg-white/10 dark:bg-black/20 rounded-bl-none flex items-center min-h-[48px]">
-                <p className="text-sm italic opacity-70 font-medium transition-all duration-700 ease-in-out">
-                    {thinkingText}
-                </p>
+            <img src={(typingSpeaker || bot).photo} alt={(typingSpeaker || bot).name} className="h-10 w-10 rounded-lg object-cover" />
+            <div className="max-w-xs md:max-w-md lg:max-w-lg p-3 rounded-2xl bg-white/10 dark:bg-black/20 rounded-bl-none flex items-center min-h-[48px]">
+                {streamingText ? (
+                    <MessageContent text={streamingText} />
+                ) : (
+                    <p className="text-sm italic opacity-70 font-medium transition-all duration-700 ease-in-out">
+                        {thinkingText}
+                    </p>
+                )}
             </div>
           </div>
         )}
-        <div ref={messagesEndRef} />
-      </main>
+      />
 
       <footer className="sticky bottom-0 p-4 bg-light-bg/80 dark:bg-dark-bg/80 backdrop-blur-sm z-20">
+        {isHandsFree && (
+          <div className="flex items-center gap-3 mb-3 p-3 rounded-2xl bg-accent/15 border border-accent/40 animate-fadeIn">
+            <span className={`h-3 w-3 rounded-full ${isListening ? 'bg-red-500 animate-pulse' : 'bg-accent'}`} />
+            <span className="flex-1 text-sm font-bold">Hands-free · {isListening ? 'Listening...' : isTyping ? 'Thinking...' : 'Speaking...'}</span>
+            <button type="button" onClick={stopHandsFree} className="px-3 py-1 rounded-xl bg-red-500 text-white text-xs font-bold">End</button>
+          </div>
+        )}
         <div className="relative flex items-center gap-2">
           <div className="relative flex-1">
             <textarea
@@ -585,10 +1009,10 @@ const ChatView: React.FC<ChatViewProps> = ({ bot, onBack, chatHistory, onNewMess
                     }
                 }
                 }}
-                placeholder={isGeneratingSuggestion ? "Generating draft..." : "Type your message..."}
+                placeholder={isGeneratingSuggestion ? "Generating draft..." : isListening ? "Listening..." : "Type your message..."}
                 // Input bar NEVER disabled due to errors/quota. Non-blocking guarantee.
                 disabled={isGeneratingSuggestion}
-                className="w-full bg-white/10 dark:bg-black/20 p-4 pr-12 rounded-2xl border border-white/20 dark:border-black/20 focus:outline-none focus:ring-2 focus:ring-accent transition-all duration-300 shadow-inner resize-none pl-14"
+                className={`w-full bg-white/10 dark:bg-black/20 p-4 ${speechSupported ? 'pr-24' : 'pr-12'} rounded-2xl border border-white/20 dark:border-black/20 focus:outline-none focus:ring-2 focus:ring-accent transition-all duration-300 shadow-inner resize-none pl-14`}
                 rows={1}
             />
             
@@ -630,11 +1054,33 @@ const ChatView: React.FC<ChatViewProps> = ({ bot, onBack, chatHistory, onNewMess
                             <svg xmlns="http://www.w3.org/2000/svg" className={`h-5 w-5 text-accent group-hover:text-white ${isGeneratingSuggestion ? 'animate-spin' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" /></svg>
                             <span className="text-sm font-bold">Auto-Suggest Message</span>
                         </button>
+                        {speechSupported && (
+                            <button 
+                                type="button" 
+                                onClick={handleToggleHandsFree}
+                                className="w-full flex items-center gap-3 px-4 py-3 hover:bg-accent transition-colors text-left border-t border-white/5"
+                            >
+                                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-accent group-hover:text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 5a2 2 0 012-2h3.28a1 1 0 01.948.684l1.498 4.493a1 1 0 01-.502 1.21l-2.257 1.13a11.042 11.042 0 005.516 5.516l1.13-2.257a1 1 0 011.21-.502l4.493 1.498a1 1 0 01.684.949V19a2 2 0 01-2 2h-1C9.716 21 3 14.284 3 6V5z" /></svg>
+                                <span className="text-sm font-bold">{isHandsFree ? 'End Hands-free' : 'Hands-free Voice Chat'}</span>
+                            </button>
+                        )}
                     </div>
                 )}
             </div>
             
-            <div className="absolute right-2 top-1/2 -translate-y-1/2 flex items-center z-10">
+            <div className="absolute right-2 top-1/2 -translate-y-1/2 flex items-center gap-1 z-10">
+                {speechSupported && !isHandsFree && (
+                    <button 
+                        type="button" 
+                        onClick={handleMicClick}
+                        className={`p-2 rounded-full transition-all ${isListening ? 'bg-red-500 text-white animate-pulse' : 'text-gray-400 hover:text-accent'}`}
+                        title={isListening ? "Stop Dictation" : "Dictate"}
+                    >
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                            <path strokeLinecap="round" strokeLinejoin="round" d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" />
+                        </svg>
+                    </button>
+                )}
                 {!input.trim() ? (
                     <button 
                         type="button" 
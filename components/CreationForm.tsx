@@ -1,8 +1,11 @@
 
 import React, { useState, useEffect, useCallback } from 'react';
-import type { BotProfile, ConversationMode, BotGender, ChatMessage } from '../types';
+import type { BotProfile, ConversationMode, BotGender, ChatMessage, VoicePreference, VoiceProfile } from '../types';
 import ImageCropper from './ImageCropper';
 import FullScreenEditor from './FullScreenEditor';
+import VoiceProfileEditor from './VoiceProfileEditor';
+import { importBotCard, type ImportedBotCard } from '../services/botCardService';
+import { DEFAULT_VOICE_PROFILE, getVoiceProfile } from '../services/voiceService';
 
 declare const localforage: any;
 
@@ -10,9 +13,11 @@ interface CreationPageProps {
   onSaveBot: (profile: Omit<BotProfile, 'id'> | BotProfile) => void;
   onNavigate: (page: 'humans' | 'personas') => void;
   botToEdit: BotProfile | null;
+  importedCard?: ImportedBotCard | null;
+  defaultVoice: VoicePreference | null;
 }
 
-const CreationPage: React.FC<CreationPageProps> = ({ onSaveBot, onNavigate, botToEdit }) => {
+const CreationPage: React.FC<CreationPageProps> = ({ onSaveBot, onNavigate, botToEdit, importedCard, defaultVoice }) => {
   const [name, setName] = useState('');
   const [description, setDescription] = useState('');
   const [personality, setPersonality] = useState('');
@@ -31,11 +36,14 @@ const CreationPage: React.FC<CreationPageProps> = ({ onSaveBot, onNavigate, botT
   const [imageToCrop, setImageToCrop] = useState<{ src: string, type: 'photo' | 'background' | 'gallery', index?: number } | null>(null);
   const [conversationMode, setConversationMode] = useState<ConversationMode>('normal');
   const [gender, setGender] = useState<BotGender>('female');
+  const [voice, setVoice] = useState<VoiceProfile>(DEFAULT_VOICE_PROFILE);
 
   const [editingField, setEditingField] = useState<'scenario' | 'personality' | null>(null);
   const [copySuccess, setCopySuccess] = useState(false);
   const [pasteSuccess, setPasteSuccess] = useState(false);
   const [isModeSectionExpanded, setIsModeSectionExpanded] = useState(false);
+  const [isVoiceSectionExpanded, setIsVoiceSectionExpanded] = useState(false);
+  const [importNotice, setImportNotice] = useState<string | null>(null);
 
   const isEditing = !!botToEdit;
 
@@ -82,11 +90,46 @@ const CreationPage: React.FC<CreationPageProps> = ({ onSaveBot, onNavigate, botT
       setOriginalGalleryImages(botToEdit.originalGalleryImages || botToEdit.galleryImages || []);
       setGalleryVideos(botToEdit.galleryVideos || []);
       setOriginalGalleryVideos(botToEdit.originalGalleryVideos || botToEdit.galleryVideos || []);
-      setConversationMode(botToEdit.conversationMode || (botToEdit.isSpicy ? 'spicy' : 'normal'));
+      setConversationMode(botToEdit.conversationMode || 'normal');
       setGender(botToEdit.gender || 'female');
+      setVoice(getVoiceProfile(botToEdit));
     }
   }, [botToEdit, isEditing]);
 
+  // Fills the form from a bot card; a card's chat replaces this bot's history on save.
+  const applyImportedCard = useCallback((card: ImportedBotCard) => {
+    const p = card.profile;
+    if (p.name) setName(p.name);
+    if (p.description) setDescription(p.description);
+    if (p.personality) setPersonality(p.personality);
+    if (p.scenario !== undefined) setScenario(p.scenario);
+    if (p.photo) { setPhoto(p.photo); setOriginalPhoto(p.originalPhoto || p.photo); }
+    if (p.gif) setGif(p.gif);
+    if (p.chatBackground) { setChatBackground(p.chatBackground); setOriginalChatBackground(p.originalChatBackground || p.chatBackground); }
+    if (p.galleryImages) { setGalleryImages(p.galleryImages); setOriginalGalleryImages(p.originalGalleryImages || p.galleryImages); }
+    if (p.galleryVideos) { setGalleryVideos(p.galleryVideos); setOriginalGalleryVideos(p.originalGalleryVideos || p.galleryVideos); }
+    if (p.conversationMode) setConversationMode(p.conversationMode);
+    if (p.gender) setGender(p.gender);
+    if (p.voice) setVoice({ ...DEFAULT_VOICE_PROFILE, ...p.voice });
+    setRestoredHistory(card.history);
+    setImportNotice(`Imported ${card.source === 'tavern' ? 'character card' : 'bot card'}${card.history ? ` with ${card.history.length} messages` : ''}. Review and save.`);
+  }, []);
+
+  useEffect(() => {
+    if (importedCard) applyImportedCard(importedCard);
+  }, [importedCard, applyImportedCard]);
+
+  const handleCardImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      applyImportedCard(await importBotCard(file));
+    } catch (err: any) {
+      alert(`Import failed: ${err?.message || err}`);
+    }
+  };
+
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>, fileType: 'photo' | 'gif' | 'background' | 'gallery' | 'video') => {
     if (e.target.files) {
       if (fileType === 'gallery') {
@@ -146,8 +189,7 @@ const CreationPage: React.FC<CreationPageProps> = ({ onSaveBot, onNavigate, botT
     const botData = { 
         name, description, personality, photo, originalPhoto, gif, scenario, 
         chatBackground, originalChatBackground, personaId: botToEdit?.personaId, 
-        isSpicy: conversationMode === 'spicy' || conversationMode === 'extreme',
-        conversationMode, gender, chatBackgroundBrightness: botToEdit?.chatBackgroundBrightness,
+        conversationMode, gender, voice, chatBackgroundBrightness: botToEdit?.chatBackgroundBrightness,
         galleryImages, originalGalleryImages, galleryVideos, originalGalleryVideos, restoredHistory
     };
     
@@ -207,6 +249,10 @@ const CreationPage: React.FC<CreationPageProps> = ({ onSaveBot, onNavigate, botT
       <header className="flex items-center justify-center mb-6 relative flex-shrink-0">
         <h1 className="text-xl font-bold">{isEditing ? 'Edit Human' : 'Create New Human'}</h1>
         <div className="absolute right-0 top-1/2 -translate-y-1/2 flex items-center gap-1">
+            <label className="p-2 rounded-full hover:bg-white/10 dark:hover:bg-black/20 w-10 h-10 flex items-center justify-center transition-colors cursor-pointer" title="Import Bot Card (JSON / PNG)">
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" /></svg>
+                <input type="file" accept=".json,.png,application/json,image/png" onChange={handleCardImport} className="hidden" />
+            </label>
             <button type="button" onClick={handlePastePersonality} className="p-2 rounded-full hover:bg-white/10 dark:hover:bg-black/20 w-10 h-10 flex items-center justify-center transition-colors" title="Paste Personality">
                 {pasteSuccess ? <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 text-green-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M5 13l4 4L19 7" /></svg> : <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2" /></svg>}
             </button>
@@ -215,6 +261,7 @@ const CreationPage: React.FC<CreationPageProps> = ({ onSaveBot, onNavigate, botT
             </button>
         </div>
       </header>
+      {importNotice && <p className="text-xs text-accent text-center -mt-4 mb-4">{importNotice}</p>}
       <form onSubmit={handleSubmit} className="space-y-6 flex-1 overflow-y-auto pb-24 no-scrollbar">
         <div className="grid grid-cols-2 gap-4">
             <div>
@@ -304,6 +351,18 @@ const CreationPage: React.FC<CreationPageProps> = ({ onSaveBot, onNavigate, botT
                 </div>
              )}
         </div>
+
+        <div className="bg-white/5 dark:bg-black/10 rounded-2xl overflow-hidden transition-all duration-300">
+             <button type="button" onClick={() => setIsVoiceSectionExpanded(!isVoiceSectionExpanded)} className="w-full p-4 flex justify-between items-center bg-white/5 dark:bg-black/5 hover:bg-white/10 transition-colors">
+                 <span className={`${labelClass} mb-0`}>Voice</span>
+                 <svg xmlns="http://www.w3.org/2000/svg" className={`h-5 w-5 text-gray-400 transition-transform duration-300 ${isVoiceSectionExpanded ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" /></svg>
+             </button>
+             {isVoiceSectionExpanded && (
+                <div className="p-4 border-t border-white/10 dark:border-black/20 animate-fadeIn">
+                    <VoiceProfileEditor profile={voice} onChange={setVoice} botName={name} defaultVoice={defaultVoice} />
+                </div>
+             )}
+        </div>
         <div>
           <label htmlFor="name" className={`${labelClass} mb-2`}>Human Name *</label>
           <input id="name" type="text" value={name} onChange={e => setName(e.target.value)} className={inputClass} required />
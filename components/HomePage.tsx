@@ -1,6 +1,7 @@
 
 import React from 'react';
-import type { BotProfile, ChatMessage } from '../types';
+import type { BotProfile, BotThreads, ChatMessage } from '../types';
+import { getThreadIds } from '../services/chatThreads';
 import BotCard from './BotCard';
 import TrendingBotCard from './TrendingBotCard';
 
@@ -8,6 +9,7 @@ interface HomePageProps {
   bots: BotProfile[];
   botUsage: Record<string, number>;
   chatHistories: Record<string, ChatMessage[]>;
+  chatThreads: Record<string, BotThreads>;
   onSelectBot: (id: string) => void;
   onEditBot: (id: string) => void;
   onDeleteBot: (id: string) => void;
@@ -15,21 +17,24 @@ interface HomePageProps {
   theme: 'light' | 'dark';
   toggleTheme: () => void;
   onOpenSettings: () => void;
+  onOpenSearch: () => void;
 }
 
-const HomePage: React.FC<HomePageProps> = ({ bots, botUsage, chatHistories, onSelectBot, onEditBot, onDeleteBot, onCloneBot, theme, toggleTheme, onOpenSettings }) => {
+const HomePage: React.FC<HomePageProps> = ({ bots, botUsage, chatHistories, chatThreads, onSelectBot, onEditBot, onDeleteBot, onCloneBot, theme, toggleTheme, onOpenSettings, onOpenSearch }) => {
+
+  // Latest message across all of a bot's threads, 0 if none.
+  const lastMessageTime = (botId: string) => Math.max(0, ...getThreadIds(chatThreads, botId).map(id => {
+    const history = chatHistories[id];
+    return (history && history.length > 0) ? history[history.length - 1].timestamp : 0;
+  }));
 
   // Sort bots by the timestamp of their last message (Recently Used).
   // If no messages exist, timestamp is 0.
   // Robust error handling to prevent crashes on missing data.
   const sortedBots = [...bots].sort((a, b) => {
     try {
-        const historyA = chatHistories[a.id];
-        const historyB = chatHistories[b.id];
-        
-        // Safe access to timestamp, default to 0 if undefined/empty
-        const lastTimeA = (historyA && historyA.length > 0) ? historyA[historyA.length - 1].timestamp : 0;
-        const lastTimeB = (historyB && historyB.length > 0) ? historyB[historyB.length - 1].timestamp : 0;
+        const lastTimeA = lastMessageTime(a.id);
+        const lastTimeB = lastMessageTime(b.id);
         
         // Sort descending (newest first)
         return lastTimeB - lastTimeA;
@@ -113,13 +118,18 @@ const HomePage: React.FC<HomePageProps> = ({ bots, botUsage, chatHistories, onSe
             <img src="https://i.postimg.cc/qRB2Gnw2/Gemini-Generated-Image-vfkohrvfkohrvfko-1.png" alt="Zia.ai Logo" className="h-8 w-8"/>
             <h1 className="text-3xl font-bold">Zia.ai</h1>
         </div>
-        <button onClick={toggleTheme} className="p-2 rounded-full hover:bg-white/10 dark:hover:bg-black/20 transition-colors">
-          {theme === 'dark' ? (
-            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 3v1m0 16v1m9-9h-1M4 12H3m15.364 6.364l-.707-.707M6.343 6.343l-.707-.707m12.728 0l-.707.707M6.343 17.657l-.707.707M16 12a4 4 0 11-8 0 4 4 0 018 0z" /></svg>
-          ) : (
-            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20.354 15.354A9 9 0 018.646 3.646 9.003 9.003 0 0012 21a9.003 9.003 0 008.354-5.646z" /></svg>
-          )}
-        </button>
+        <div className="flex items-center">
+          <button onClick={onOpenSearch} className="p-2 rounded-full hover:bg-white/10 dark:hover:bg-black/20 transition-colors" aria-label="Search chats">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" /></svg>
+          </button>
+          <button onClick={toggleTheme} className="p-2 rounded-full hover:bg-white/10 dark:hover:bg-black/20 transition-colors">
+            {theme === 'dark' ? (
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 3v1m0 16v1m9-9h-1M4 12H3m15.364 6.364l-.707-.707M6.343 6.343l-.707-.707m12.728 0l-.707.707M6.343 17.657l-.707.707M16 12a4 4 0 11-8 0 4 4 0 018 0z" /></svg>
+            ) : (
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20.354 15.354A9 9 0 018.646 3.646 9.003 9.003 0 0012 21a9.003 9.003 0 008.354-5.646z" /></svg>
+            )}
+          </button>
+        </div>
       </header>
       
       <main className="flex-1 overflow-y-auto pb-24 space-y-8">
@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+import type { Lorebook, LoreEntry, LorePosition, LoreScope } from '../types';
+import { parseKeywords, type LoreTurn } from '../services/lorebook';
+import { estimateTokens } from '../services/contextBudget';
+
+interface LorebookModalProps {
+  botId: string;
+  botName: string;
+  personaId?: string | null;
+  lorebook: Lorebook;
+  onChange: (lorebook: Lorebook) => void;
+  turns: LoreTurn[]; // newest first
+  onClose: () => void;
+}
+
+const POSITION_LABELS: Record<LorePosition, string> = {
+  before_character: 'Before character',
+  after_character: 'After character',
+  end: 'End of prompt',
+};
+
+interface Draft {
+  id: string | null; // null while adding
+  name: string;
+  keywords: string;
+  content: string;
+  priority: number;
+  position: LorePosition;
+  scope: LoreScope;
+}
+
+const EMPTY_DRAFT: Draft = { id: null, name: '', keywords: '', content: '', priority: 0, position: 'after_character', scope: 'bot' };
+
+const LorebookModal: React.FC<LorebookModalProps> = ({ botId, botName, personaId, lorebook, onChange, turns, onClose }) => {
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [showLog, setShowLog] = useState(false);
+
+  const scopeLabel = (entry: LoreEntry) => entry.scope === 'global' ? 'Global' : entry.scope === 'persona' ? 'Persona' : botName;
+  // Entries this chat can use, disabled ones included so they can be switched back on.
+  const visible = lorebook.entries
+    .filter(e => e.scope === 'global' || (e.scope === 'bot' && e.ownerId === botId) || (e.scope === 'persona' && !!personaId && e.ownerId === personaId))
+    .sort((a, b) => b.priority - a.priority || a.name.localeCompare(b.name));
+  const lastTurn = turns[0];
+  const firedLastTurn = new Set(lastTurn?.match.fired.map(a => a.entry.id) || []);
+
+  const updateEntries = (entries: LoreEntry[]) => onChange({ ...lorebook, entries });
+
+  const handleSave = () => {
+    if (!draft || !draft.name.trim() || !draft.content.trim()) return;
+    const keywords = parseKeywords(draft.keywords);
+    if (keywords.length === 0) { alert('Add at least one keyword, or the entry can never fire.'); return; }
+    const now = Date.now();
+    const fields = {
+      name: draft.name.trim(), keywords, content: draft.content.trim(), priority: draft.priority, position: draft.position,
+      scope: draft.scope, ownerId: draft.scope === 'bot' ? botId : draft.scope === 'persona' ? personaId : null, updatedAt: now,
+    };
+    updateEntries(draft.id
+      ? lorebook.entries.map(e => e.id === draft.id ? { ...e, ...fields } : e)
+      : [...lorebook.entries, { id: `lore-${now}`, enabled: true, createdAt: now, ...fields }]);
+    setDraft(null);
+  };
+
+  const inputClass = "w-full bg-black/30 p-2 rounded-lg text-sm border border-white/10 focus:outline-none focus:ring-2 focus:ring-accent";
+
+  const renderForm = (d: Draft) => (
+    <div className="space-y-2">
+      <input type="text" value={d.name} onChange={(e) => setDraft({ ...d, name: e.target.value })} placeholder="Entry name (e.g. The Silver Keep)" autoFocus className={inputClass} />
+      <input type="text" value={d.keywords} onChange={(e) => setDraft({ ...d, keywords: e.target.value })} placeholder="Keywords, comma separated (keep, castle, silver keep)" className={inputClass} />
+      <textarea value={d.content} onChange={(e) => setDraft({ ...d, content: e.target.value })} rows={4} placeholder="What the bot should know when this comes up..." className={`${inputClass} resize-none`} />
+      <p className="text-[10px] text-gray-500 text-right">~{estimateTokens(d.content)} tokens</p>
+      <div className="grid grid-cols-3 gap-2">
+        <label className="text-[10px] text-gray-400">Priority
+          <input type="number" value={d.priority} onChange={(e) => setDraft({ ...d, priority: parseInt(e.target.value, 10) || 0 })} className={`${inputClass} mt-1`} />
+        </label>
+        <label className="text-[10px] text-gray-400">Position
+          <select value={d.position} onChange={(e) => setDraft({ ...d, position: e.target.value as LorePosition })} className={`${inputClass} mt-1`}>
+            {(Object.keys(POSITION_LABELS) as LorePosition[]).map(p => <option key={p} value={p}>{POSITION_LABELS[p]}</option>)}
+          </select>
+        </label>
+        <label className="text-[10px] text-gray-400">Applies to
+          <select value={d.scope} onChange={(e) => setDraft({ ...d, scope: e.target.value as LoreScope })} className={`${inputClass} mt-1`}>
+            <option value="bot">{botName}</option>
+            {personaId && <option value="persona">This persona</option>}
+            <option value="global">Every bot</option>
+          </select>
+        </label>
+      </div>
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={() => setDraft(null)} className="text-xs px-3 py-1 rounded-lg bg-gray-600 text-white">Cancel</button>
+        <button type="button" onClick={handleSave} disabled={!d.name.trim() || !d.content.trim()} className="text-xs px-3 py-1 rounded-lg bg-accent text-white font-bold disabled:opacity-50">Save</button>
+      </div>
+    </div>
+  );
+
+  const renderTurn = (turn: LoreTurn, i: number) => (
+    <div key={i} className="p-2 rounded-lg bg-white/5 text-xs space-y-1">
+      <p className="text-gray-400">{new Date(turn.at).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit', second: '2-digit' })} · {turn.speakerName}</p>
+      {turn.match.fired.length === 0 && turn.match.dropped.length === 0 && <p className="text-gray-500 italic">Nothing fired.</p>}
+      {turn.match.fired.map(({ entry, keyword }) => <p key={entry.id}><span className="font-bold text-accent">{entry.name}</span> <span className="text-gray-400">on “{keyword}”</span></p>)}
+      {turn.match.dropped.map(({ entry, keyword }) => <p key={entry.id} className="text-gray-500 line-through" title="Over the token budget">{entry.name} <span>on “{keyword}”</span></p>)}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 animate-fadeIn p-4" onClick={onClose}>
+      <div className="bg-dark-bg rounded-2xl shadow-2xl relative max-w-md w-full mx-auto p-6 max-h-[85vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-xl font-bold mb-1">Lorebook</h2>
+        <p className="text-xs text-gray-400 mb-3">World info sent only when its keywords come up in the last few messages. Higher priority goes first.</p>
+        <label className="flex items-center justify-between text-xs text-gray-400 mb-3">
+          <span>Token budget per reply</span>
+          <input type="number" min={50} step={50} value={lorebook.tokenBudget} onChange={(e) => onChange({ ...lorebook, tokenBudget: Math.max(50, parseInt(e.target.value, 10) || 0) })} className="w-24 bg-black/30 p-1 rounded-lg text-sm text-right border border-white/10 focus:outline-none focus:ring-2 focus:ring-accent" />
+        </label>
+
+        <div className="flex-1 overflow-y-auto space-y-2 no-scrollbar">
+          {showLog ? (
+            turns.length === 0
+              ? <p className="text-sm text-gray-500 italic text-center py-6">No replies yet in this session.</p>
+              : turns.map(renderTurn)
+          ) : (
+            <>
+              {visible.length === 0 && !draft && (
+                <p className="text-sm text-gray-500 italic text-center py-6">No entries yet. Add places, people or rules of your world.</p>
+              )}
+              {visible.map(entry => (
+                <div key={entry.id} className={`p-3 rounded-xl border ${firedLastTurn.has(entry.id) ? 'border-accent/60 bg-accent/10' : 'border-white/10 bg-white/5'} ${entry.enabled ? '' : 'opacity-50'}`}>
+                  {draft?.id === entry.id ? renderForm(draft) : (
+                    <>
+                      <div className="flex items-start gap-2">
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm font-bold truncate">{entry.name}</p>
+                          <p className="text-xs text-gray-400 truncate">{entry.keywords.join(', ')}</p>
+                        </div>
+                        <button type="button" onClick={() => updateEntries(lorebook.entries.map(e => e.id === entry.id ? { ...e, enabled: !e.enabled, updatedAt: Date.now() } : e))} className={`text-xs px-2 py-1 rounded-lg ${entry.enabled ? 'bg-accent text-white' : 'bg-black/30 text-gray-300 hover:bg-accent/50'}`}>
+                          {entry.enabled ? 'On' : 'Off'}
+                        </button>
+                        <button type="button" onClick={() => setDraft({ id: entry.id, name: entry.name, keywords: entry.keywords.join(', '), content: entry.content, priority: entry.priority, position: entry.position, scope: entry.scope })} className="text-xs px-2 py-1 rounded-lg bg-black/30 text-gray-300 hover:bg-accent/50">Edit</button>
+                        <button type="button" onClick={() => { if (window.confirm(`Delete "${entry.name}"?`)) updateEntries(lorebook.entries.filter(e => e.id !== entry.id)); }} className="text-xs px-2 py-1 rounded-lg bg-black/30 text-gray-300 hover:bg-red-500" aria-label="Delete entry">&times;</button>
+                      </div>
+                      <p className="text-[10px] uppercase tracking-wider text-gray-500 mt-1">
+                        {scopeLabel(entry)} · {POSITION_LABELS[entry.position]} · Priority {entry.priority} · ~{estimateTokens(entry.content)} tokens{firedLastTurn.has(entry.id) ? ' · Fired last reply' : ''}
+                      </p>
+                    </>
+                  )}
+                </div>
+              ))}
+              {draft && !draft.id && <div className="p-3 rounded-xl border border-accent/60">{renderForm(draft)}</div>}
+            </>
+          )}
+        </div>
+
+        <div className="flex gap-2 mt-4">
+          <button type="button" onClick={() => setShowLog(!showLog)} className="flex-1 bg-white/10 hover:bg-white/20 font-bold py-3 px-4 rounded-2xl text-sm transition-colors">
+            {showLog ? 'Entries' : `Fired per reply${turns.length > 0 ? ` (${turns.length})` : ''}`}
+          </button>
+          {!showLog && <button type="button" onClick={() => setDraft({ ...EMPTY_DRAFT })} disabled={!!draft} className="flex-1 bg-accent text-white font-bold py-3 px-4 rounded-2xl text-sm disabled:opacity-50">Add Entry</button>}
+        </div>
+        <button type="button" onClick={onClose} className="mt-3 w-full bg-gray-500 text-white font-bold py-3 px-4 rounded-2xl transition-colors">Close</button>
+      </div>
+    </div>
+  );
+};
+
+export default LorebookModal;
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import type { BotMemory } from '../types';
+
+interface MemoryModalProps {
+  botName: string;
+  memories: BotMemory[];
+  onChange: (memories: BotMemory[]) => void;
+  onClose: () => void;
+}
+
+const MemoryModal: React.FC<MemoryModalProps> = ({ botName, memories, onChange, onClose }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+  const [newText, setNewText] = useState('');
+
+  // Pinned first, then newest.
+  const sorted = [...memories].sort((a, b) => Number(b.pinned) - Number(a.pinned) || b.updatedAt - a.updatedAt);
+
+  const updateMemory = (id: string, changes: Partial<BotMemory>) => {
+    onChange(memories.map(m => m.id === id ? { ...m, ...changes, updatedAt: Date.now() } : m));
+  };
+
+  const handleSaveEdit = () => {
+    if (!editingId) return;
+    if (editText.trim()) updateMemory(editingId, { text: editText.trim(), source: 'manual' });
+    setEditingId(null);
+  };
+
+  const handleAdd = () => {
+    if (!newText.trim()) return;
+    const now = Date.now();
+    onChange([...memories, { id: `mem-${now}`, text: newText.trim(), pinned: false, source: 'manual', createdAt: now, updatedAt: now }]);
+    setNewText('');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 animate-fadeIn p-4" onClick={onClose}>
+      <div className="bg-dark-bg rounded-2xl shadow-2xl relative max-w-md w-full mx-auto p-6 max-h-[85vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-xl font-bold mb-1">Memories</h2>
+        <p className="text-xs text-gray-400 mb-4">What {botName} remembers about you. Pinned memories are always used; the rest are picked by relevance.</p>
+
+        <div className="flex-1 overflow-y-auto space-y-2 no-scrollbar">
+          {sorted.length === 0 && (
+            <p className="text-sm text-gray-500 italic text-center py-6">Nothing yet. Facts like your name or favourite things are saved as you chat.</p>
+          )}
+          {sorted.map(memory => (
+            <div key={memory.id} className={`p-3 rounded-xl border ${memory.pinned ? 'border-accent/60 bg-accent/10' : 'border-white/10 bg-white/5'}`}>
+              {editingId === memory.id ? (
+                <div className="space-y-2">
+                  <textarea
+                    value={editText}
+                    onChange={(e) => setEditText(e.target.value)}
+                    rows={2}
+                    autoFocus
+                    className="w-full bg-black/30 p-2 rounded-lg text-sm border border-white/10 focus:outline-none focus:ring-2 focus:ring-accent resize-none"
+                  />
+                  <div className="flex justify-end gap-2">
+                    <button type="button" onClick={() => setEditingId(null)} className="text-xs px-3 py-1 rounded-lg bg-gray-600 text-white">Cancel</button>
+                    <button type="button" onClick={handleSaveEdit} className="text-xs px-3 py-1 rounded-lg bg-accent text-white font-bold">Save</button>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex items-start gap-2">
+                  <p className="flex-1 text-sm">{memory.text}</p>
+                  <button type="button" onClick={() => updateMemory(memory.id, { pinned: !memory.pinned })} className={`text-xs px-2 py-1 rounded-lg ${memory.pinned ? 'bg-accent text-white' : 'bg-black/30 text-gray-300 hover:bg-accent/50'}`} aria-label={memory.pinned ? 'Unpin memory' : 'Pin memory'}>
+                    {memory.pinned ? 'Pinned' : 'Pin'}
+                  </button>
+                  <button type="button" onClick={() => { setEditingId(memory.id); setEditText(memory.text); }} className="text-xs px-2 py-1 rounded-lg bg-black/30 text-gray-300 hover:bg-accent/50">Edit</button>
+                  <button type="button" onClick={() => onChange(memories.filter(m => m.id !== memory.id))} className="text-xs px-2 py-1 rounded-lg bg-black/30 text-gray-300 hover:bg-red-500" aria-label="Delete memory">&times;</button>
+                </div>
+              )}
+              {memory.source === 'auto' && editingId !== memory.id && <span className="text-[10px] uppercase tracking-wider text-gray-500">Auto-captured</span>}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-2 mt-4">
+          <input
+            type="text"
+            value={newText}
+            onChange={(e) => setNewText(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleAdd(); }}
+            placeholder="Add something to remember..."
+            className="flex-1 bg-white/10 p-3 rounded-xl text-sm border border-white/10 focus:outline-none focus:ring-2 focus:ring-accent"
+          />
+          <button type="button" onClick={handleAdd} disabled={!newText.trim()} className="bg-accent text-white font-bold px-4 rounded-xl disabled:opacity-50">Add</button>
+        </div>
+        <button type="button" onClick={onClose} className="mt-3 w-full bg-gray-500 text-white font-bold py-3 px-4 rounded-2xl transition-colors">Close</button>
+      </div>
+    </div>
+  );
+};
+
+export default MemoryModal;
@@ -0,0 +1,89 @@
+import React, { useMemo, useState } from 'react';
+import { parseMarkdown, type Block, type Inline } from '../services/markdown';
+
+interface MessageContentProps {
+  text: string;
+  foldable?: boolean; // long text starts folded behind "Show more"
+}
+
+const FOLD_CHARS = 1200;
+const FOLD_LINES = 24;
+
+const CodeBlock: React.FC<{ lang: string; code: string }> = ({ lang, code }) => {
+  const [copied, setCopied] = useState(false);
+  const handleCopy = () => {
+    navigator.clipboard.writeText(code).then(() => {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    });
+  };
+  return (
+    <div className="rounded-lg bg-black/40 text-xs overflow-hidden">
+      <div className="flex items-center justify-between px-3 py-1 bg-black/30 text-[10px] text-gray-400">
+        <span className="font-mono">{lang || 'code'}</span>
+        <button onClick={handleCopy} className="font-bold hover:text-white transition-colors">{copied ? 'Copied!' : 'Copy'}</button>
+      </div>
+      <pre className="p-3 overflow-x-auto whitespace-pre"><code className="font-mono">{code}</code></pre>
+    </div>
+  );
+};
+
+const renderInline = (nodes: Inline[]): React.ReactNode[] => nodes.map((node, i) => {
+  switch (node.type) {
+    case 'text': return node.text;
+    case 'code': return <code key={i} className="px-1 rounded bg-black/30 font-mono text-[0.9em]">{node.text}</code>;
+    case 'link': return <a key={i} href={node.href} target="_blank" rel="noopener noreferrer" className="underline break-all">{renderInline(node.children)}</a>;
+    case 'bold': return <strong key={i}>{renderInline(node.children)}</strong>;
+    case 'italic': return <em key={i}>{renderInline(node.children)}</em>;
+    case 'strike': return <del key={i}>{renderInline(node.children)}</del>;
+    case 'action': return <span key={i} className="text-accent italic">{renderInline(node.children)}</span>;
+  }
+});
+
+const renderBlocks = (blocks: Block[]): React.ReactNode[] => blocks.map((block, i) => {
+  switch (block.type) {
+    case 'paragraph':
+      return <p key={i} className="whitespace-pre-wrap">{block.lines.map((line, j) => <React.Fragment key={j}>{j > 0 && '\n'}{renderInline(line)}</React.Fragment>)}</p>;
+    case 'heading':
+      return <p key={i} className={`font-bold ${block.level === 1 ? 'text-lg' : ''}`}>{renderInline(block.content)}</p>;
+    case 'code':
+      return <CodeBlock key={i} lang={block.lang} code={block.code} />;
+    case 'quote':
+      return <blockquote key={i} className="border-l-2 border-white/30 pl-3 opacity-80 space-y-2">{renderBlocks(block.blocks)}</blockquote>;
+    case 'list': {
+      const items = block.items.map((item, j) => <li key={j} className="space-y-1">{renderBlocks(item)}</li>);
+      return block.ordered
+        ? <ol key={i} start={block.start} className="list-decimal pl-5 space-y-1">{items}</ol>
+        : <ul key={i} className="list-disc pl-5 space-y-1">{items}</ul>;
+    }
+    case 'rule':
+      return <hr key={i} className="border-white/20" />;
+  }
+});
+
+const FOLD_MASK = 'linear-gradient(to bottom, black 60%, transparent)';
+
+const MessageContent: React.FC<MessageContentProps> = ({ text, foldable = false }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const blocks = useMemo(() => parseMarkdown(text || ''), [text]);
+  const isLong = foldable && (text.length > FOLD_CHARS || text.split('\n').length > FOLD_LINES);
+  const isFolded = isLong && !isExpanded;
+
+  return (
+    <div className="break-words">
+      <div
+        className={`space-y-2 ${isFolded ? 'max-h-80 overflow-hidden' : ''}`}
+        style={isFolded ? { maskImage: FOLD_MASK, WebkitMaskImage: FOLD_MASK } : undefined}
+      >
+        {renderBlocks(blocks)}
+      </div>
+      {isLong && (
+        <button onClick={() => setIsExpanded(!isExpanded)} className="mt-1 text-xs font-bold underline opacity-80 hover:opacity-100">
+          {isExpanded ? 'Show less' : 'Show more'}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default MessageContent;
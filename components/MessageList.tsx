@@ -0,0 +1,157 @@
+import React, { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import type { ChatMessage } from '../types';
+
+interface MessageListProps {
+  messages: ChatMessage[];
+  renderMessage: (msg: ChatMessage) => React.ReactNode;
+  footer?: React.ReactNode; // typing indicator; always below the last message
+  focusMessageId: string | null; // scroll here instead of to the bottom
+}
+
+// Only the rows near the viewport are mounted. Heights start as an estimate and are
+// corrected as rows get measured; whatever row is at the top of the screen stays put
+// while that happens, and while messages above it are added or removed.
+const ESTIMATED_ROW_HEIGHT = 96;
+const OVERSCAN_PX = 800;
+const BOTTOM_SLACK_PX = 48;
+const RESCAN_PX = 200;
+
+const MeasuredRow: React.FC<{ id: string; onHeight: (id: string, height: number) => void; children: React.ReactNode }> = ({ id, onHeight, children }) => {
+  const ref = useRef<HTMLDivElement>(null);
+  useLayoutEffect(() => {
+    const el = ref.current;
+    if (!el) return;
+    onHeight(id, el.offsetHeight);
+    const observer = new ResizeObserver(() => onHeight(id, el.offsetHeight));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [id, onHeight]);
+  return <div ref={ref} className="pb-1">{children}</div>;
+};
+
+// Index of the row that contains `y`.
+const findRow = (offsets: number[], y: number) => {
+  let lo = 0, hi = offsets.length - 2;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (offsets[mid] <= y) lo = mid; else hi = mid - 1;
+  }
+  return Math.max(lo, 0);
+};
+
+const MessageList: React.FC<MessageListProps> = ({ messages, renderMessage, footer, focusMessageId }) => {
+  const scrollRef = useRef<HTMLElement>(null);
+  const heights = useRef(new Map<string, number>());
+  const [measureVersion, setMeasureVersion] = useState(0);
+  const [viewport, setViewport] = useState({ top: 0, height: 0 });
+  const [isAwayFromBottom, setIsAwayFromBottom] = useState(false);
+  const stickToBottom = useRef(!focusMessageId);
+  const anchor = useRef<{ id: string; offset: number } | null>(null);
+  const lastMessageId = useRef(messages[messages.length - 1]?.id);
+
+  const layout = useMemo(() => {
+    const offsets = [0];
+    const indexById = new Map<string, number>();
+    messages.forEach((m, i) => {
+      indexById.set(m.id, i);
+      offsets.push(offsets[i] + (heights.current.get(m.id) ?? ESTIMATED_ROW_HEIGHT));
+    });
+    return { messages, offsets, indexById };
+  }, [messages, measureVersion]);
+  const layoutRef = useRef(layout);
+  layoutRef.current = layout;
+
+  const handleHeight = useCallback((id: string, height: number) => {
+    if (height === 0 || heights.current.get(id) === height) return;
+    heights.current.set(id, height);
+    setMeasureVersion(v => v + 1);
+  }, []);
+
+  const recordAnchor = () => {
+    const el = scrollRef.current;
+    const { messages, offsets } = layoutRef.current;
+    if (!el || messages.length === 0) return;
+    const i = findRow(offsets, el.scrollTop);
+    anchor.current = { id: messages[i].id, offset: el.scrollTop - offsets[i] };
+  };
+
+  const handleScroll = () => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const atBottom = el.scrollHeight - el.scrollTop - el.clientHeight < BOTTOM_SLACK_PX;
+    stickToBottom.current = atBottom;
+    setIsAwayFromBottom(!atBottom);
+    recordAnchor();
+    // The window only moves once the overscan starts running out.
+    setViewport(prev => Math.abs(prev.top - el.scrollTop) < RESCAN_PX && prev.height === el.clientHeight ? prev : { top: el.scrollTop, height: el.clientHeight });
+  };
+
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => setViewport({ top: el.scrollTop, height: el.clientHeight }));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  useLayoutEffect(() => {
+    const el = scrollRef.current;
+    const i = focusMessageId ? layoutRef.current.indexById.get(focusMessageId) : undefined;
+    if (!el || i === undefined) return;
+    const { offsets } = layoutRef.current;
+    stickToBottom.current = false;
+    anchor.current = { id: focusMessageId!, offset: (offsets[i + 1] - offsets[i]) / 2 - el.clientHeight / 2 };
+    el.scrollTop = offsets[i] + anchor.current.offset;
+  }, [focusMessageId]);
+
+  // After every render: follow new replies at the bottom, otherwise keep the anchor row in place.
+  useLayoutEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const last = messages[messages.length - 1];
+    if (last?.id !== lastMessageId.current) {
+      lastMessageId.current = last?.id;
+      if (last?.sender === 'user') stickToBottom.current = true; // what you send is always shown
+    }
+    if (stickToBottom.current) {
+      el.scrollTop = el.scrollHeight;
+      return;
+    }
+    const i = anchor.current ? layout.indexById.get(anchor.current.id) : undefined;
+    if (i === undefined) return;
+    const target = layout.offsets[i] + anchor.current!.offset;
+    if (Math.abs(el.scrollTop - target) > 1) el.scrollTop = target;
+  });
+
+  const { offsets } = layout;
+  const total = offsets[offsets.length - 1];
+  const start = messages.length > 0 ? findRow(offsets, viewport.top - OVERSCAN_PX) : 0;
+  const end = messages.length > 0 ? findRow(offsets, viewport.top + viewport.height + OVERSCAN_PX) + 1 : 0;
+
+  const jumpToLatest = () => {
+    const el = scrollRef.current;
+    if (!el) return;
+    stickToBottom.current = true;
+    el.scrollTop = el.scrollHeight;
+  };
+
+  return (
+    <div className="relative flex-1 min-h-0 z-10">
+      <main ref={scrollRef} onScroll={handleScroll} style={{ overflowAnchor: 'none' }} className="h-full overflow-y-auto p-4 no-scrollbar">
+        <div style={{ height: offsets[start] }} />
+        {messages.slice(start, end).map(msg => (
+          <MeasuredRow key={msg.id} id={msg.id} onHeight={handleHeight}>{renderMessage(msg)}</MeasuredRow>
+        ))}
+        <div style={{ height: total - offsets[end] }} />
+        {footer}
+      </main>
+      {isAwayFromBottom && (
+        <button onClick={jumpToLatest} className="absolute bottom-3 right-4 h-10 w-10 rounded-full bg-accent text-white shadow-lg flex items-center justify-center animate-fadeIn" aria-label="Jump to latest message">
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 14l-7 7m0 0l-7-7m7 7V3" /></svg>
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default MessageList;
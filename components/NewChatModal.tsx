@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import type { BotProfile, GroupChat, TurnPolicy } from '../types';
+import { TURN_POLICIES } from '../services/groupChat';
+
+interface NewChatModalProps {
+  host: BotProfile;
+  otherBots: BotProfile[];
+  group: GroupChat | null;
+  onStart: (name: string, group: GroupChat | null) => void;
+  onClose: () => void;
+}
+
+const NewChatModal: React.FC<NewChatModalProps> = ({ host, otherBots, group, onStart, onClose }) => {
+  const [selectedIds, setSelectedIds] = useState<string[]>(() => (group?.participantIds || []).filter(id => otherBots.some(b => b.id === id)));
+  const [turnPolicy, setTurnPolicy] = useState<TurnPolicy>(group?.turnPolicy || 'round-robin');
+  const [name, setName] = useState('');
+
+  // Order of ticking is the speaking order.
+  const toggle = (id: string) => setSelectedIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+
+  const handleStart = () => onStart(name, selectedIds.length > 0 ? { participantIds: selectedIds, turnPolicy } : null);
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 animate-fadeIn p-4" onClick={onClose}>
+      <div className="bg-dark-bg rounded-2xl shadow-2xl relative max-w-md w-full mx-auto p-6 max-h-[85vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-xl font-bold mb-1">Start New Chat</h2>
+        <p className="text-xs text-gray-400 mb-4">Opens a separate thread with {host.name}; the current one stays in the thread list. Add other bots to make it a group scene.</p>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Thread name (optional)"
+          className="w-full bg-black/20 p-2 rounded-lg border border-white/20 text-sm focus:outline-none focus:ring-2 focus:ring-accent mb-3"
+        />
+
+        <div className="flex-1 overflow-y-auto space-y-2 no-scrollbar">
+          <div className="flex items-center gap-3 p-2 rounded-xl bg-accent/10 border border-accent/40">
+            <img src={host.photo} alt={host.name} className="h-8 w-8 rounded-lg object-cover" />
+            <span className="flex-1 text-sm font-bold truncate">{host.name}</span>
+            <span className="text-[10px] uppercase text-accent">Always in</span>
+          </div>
+          {otherBots.map(bot => {
+            const position = selectedIds.indexOf(bot.id);
+            return (
+              <label key={bot.id} className={`flex items-center gap-3 p-2 rounded-xl border cursor-pointer ${position >= 0 ? 'border-accent/60 bg-white/5' : 'border-white/10'}`}>
+                <input type="checkbox" checked={position >= 0} onChange={() => toggle(bot.id)} className="h-4 w-4 rounded text-accent focus:ring-accent" />
+                <img src={bot.photo} alt={bot.name} className="h-8 w-8 rounded-lg object-cover" />
+                <span className="flex-1 text-sm truncate">{bot.name}</span>
+                {position >= 0 && <span className="text-[10px] text-gray-400">#{position + 2}</span>}
+              </label>
+            );
+          })}
+          {otherBots.length === 0 && <p className="text-sm text-gray-500 italic text-center py-4">Create more bots to start a group chat.</p>}
+        </div>
+
+        {selectedIds.length > 0 && (
+          <div className="mt-4 space-y-1">
+            <label htmlFor="turn-policy" className="block text-sm font-medium">Who answers</label>
+            <select id="turn-policy" value={turnPolicy} onChange={(e) => setTurnPolicy(e.target.value as TurnPolicy)} className="w-full bg-black/20 p-2 rounded-lg border border-white/20 text-sm focus:outline-none focus:ring-2 focus:ring-accent">
+              {TURN_POLICIES.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+            </select>
+            <p className="text-[10px] text-gray-500">{TURN_POLICIES.find(p => p.id === turnPolicy)?.hint}</p>
+          </div>
+        )}
+
+        <div className="flex gap-2 mt-6">
+          <button type="button" onClick={onClose} className="flex-1 bg-gray-500 text-white font-bold py-3 px-4 rounded-2xl transition-colors">Cancel</button>
+          <button type="button" onClick={handleStart} className="flex-1 bg-accent text-white font-bold py-3 px-4 rounded-2xl transition-colors">{selectedIds.length > 0 ? `Start Group (${selectedIds.length + 1})` : 'Start'}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NewChatModal;
@@ -0,0 +1,124 @@
+import React, { useDeferredValue, useMemo, useState } from 'react';
+import type { BotProfile, BotThreads, ChatMessage, ChatThread } from '../types';
+import { getBotThreads } from '../services/chatThreads';
+import { highlightMatches, searchMessages, type SearchFilters } from '../services/searchIndex';
+
+interface SearchPageProps {
+  bots: BotProfile[];
+  chatThreads: Record<string, BotThreads>;
+  chatHistories: Record<string, ChatMessage[]>; // only to re-run the search when chats change
+  onBack: () => void;
+  onOpenMessage: (threadId: string, messageId: string) => void;
+}
+
+const MAX_RESULTS = 200;
+const SNIPPET_LEAD = 60;
+
+const dayStart = (date: string) => date ? new Date(`${date}T00:00:00`).getTime() : undefined;
+const dayEnd = (date: string) => date ? new Date(`${date}T23:59:59.999`).getTime() : undefined;
+
+const SearchPage: React.FC<SearchPageProps> = ({ bots, chatThreads, chatHistories, onBack, onOpenMessage }) => {
+  const [query, setQuery] = useState('');
+  const [botId, setBotId] = useState('');
+  const [sender, setSender] = useState<'' | 'user' | 'bot'>('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const deferredQuery = useDeferredValue(query);
+
+  // Which bot and thread every thread id belongs to.
+  const owners = useMemo(() => {
+    const map: Record<string, { bot: BotProfile; thread: ChatThread; threadCount: number }> = {};
+    bots.forEach(bot => {
+      const { threads } = getBotThreads(chatThreads, bot.id);
+      threads.forEach(thread => { map[thread.id] = { bot, thread, threadCount: threads.length }; });
+    });
+    return map;
+  }, [bots, chatThreads]);
+
+  const { hits, total } = useMemo(() => {
+    const filters: SearchFilters = {
+      threadIds: botId ? getBotThreads(chatThreads, botId).threads.map(t => t.id) : undefined,
+      sender: sender || undefined,
+      from: dayStart(from),
+      to: dayEnd(to),
+    };
+    return searchMessages(deferredQuery, filters, MAX_RESULTS);
+  }, [deferredQuery, botId, sender, from, to, chatThreads, chatHistories]);
+
+  const renderSnippet = (text: string) => {
+    const parts = highlightMatches(text, deferredQuery);
+    // Long messages start a little before the first match.
+    const firstMatch = parts.findIndex(p => p.match);
+    const before = parts.slice(0, Math.max(firstMatch, 0)).reduce((n, p) => n + p.text.length, 0);
+    let skip = before > SNIPPET_LEAD ? before - SNIPPET_LEAD : 0;
+    return (
+      <>
+        {skip > 0 && '…'}
+        {parts.map((part, i) => {
+          const shown = part.text.slice(Math.min(skip, part.text.length));
+          skip = Math.max(0, skip - part.text.length);
+          return part.match ? <mark key={i} className="bg-accent/40 text-inherit rounded px-0.5">{shown}</mark> : <span key={i}>{shown}</span>;
+        })}
+      </>
+    );
+  };
+
+  const inputClass = "w-full bg-black/20 p-2 rounded-lg border border-white/20 text-sm focus:outline-none focus:ring-2 focus:ring-accent";
+
+  return (
+    <div className="h-full w-full flex flex-col p-4 bg-light-bg text-light-text dark:bg-dark-bg dark:text-dark-text animate-fadeIn">
+      <header className="flex items-center mb-4">
+        <button onClick={onBack} className="p-2 rounded-full hover:bg-white/10 dark:hover:bg-black/20">
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" /></svg>
+        </button>
+        <h1 className="text-xl font-bold flex-1 text-center pr-8">Search Chats</h1>
+      </header>
+
+      <div className="space-y-2 mb-4">
+        <input type="search" value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Search every message..." autoFocus className={inputClass} />
+        <div className="grid grid-cols-2 gap-2">
+          <select value={botId} onChange={(e) => setBotId(e.target.value)} className={inputClass}>
+            <option value="">All bots</option>
+            {bots.map(bot => <option key={bot.id} value={bot.id}>{bot.name}</option>)}
+          </select>
+          <select value={sender} onChange={(e) => setSender(e.target.value as '' | 'user' | 'bot')} className={inputClass}>
+            <option value="">Anyone</option>
+            <option value="user">Me</option>
+            <option value="bot">Bots</option>
+          </select>
+          <label className="block text-xs text-gray-400">From
+            <input type="date" value={from} max={to || undefined} onChange={(e) => setFrom(e.target.value)} className={`${inputClass} mt-1`} />
+          </label>
+          <label className="block text-xs text-gray-400">To
+            <input type="date" value={to} min={from || undefined} onChange={(e) => setTo(e.target.value)} className={`${inputClass} mt-1`} />
+          </label>
+        </div>
+      </div>
+
+      <main className="flex-1 overflow-y-auto pb-24 space-y-2 no-scrollbar">
+        {deferredQuery.trim() && (
+          <p className="text-xs text-gray-400">{total === 0 ? 'No messages found.' : total > hits.length ? `Showing the newest ${hits.length} of ${total} messages.` : `${total} ${total === 1 ? 'message' : 'messages'}`}</p>
+        )}
+        {hits.map(({ threadId, message }) => {
+          const owner = owners[threadId];
+          if (!owner) return null;
+          const speaker = message.sender === 'user' ? 'You' : (bots.find(b => b.id === message.speakerId) || owner.bot).name;
+          return (
+            <button key={`${threadId}-${message.id}`} onClick={() => onOpenMessage(threadId, message.id)} className="w-full text-left flex gap-3 p-3 rounded-xl bg-white/5 dark:bg-black/10 hover:bg-accent/10 transition-colors">
+              <img src={owner.bot.photo} alt={owner.bot.name} className="h-10 w-10 rounded-lg object-cover flex-shrink-0" />
+              <div className="flex-1 min-w-0">
+                <div className="flex justify-between gap-2 text-xs text-gray-400">
+                  <span className="truncate"><span className="font-bold text-accent">{speaker}</span> · {owner.bot.name}{owner.threadCount > 1 ? ` · ${owner.thread.name}` : ''}</span>
+                  <span className="whitespace-nowrap">{new Date(message.timestamp).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })}</span>
+                </div>
+                <p className="text-sm mt-1 line-clamp-3 break-words">{renderSnippet(message.text)}</p>
+              </div>
+            </button>
+          );
+        })}
+      </main>
+    </div>
+  );
+};
+
+export default SearchPage;
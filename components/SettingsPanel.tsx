@@ -1,7 +1,10 @@
 
 import React, { useState, useEffect, useMemo } from 'react';
-import type { AIModelOption, VoicePreference, GeminiUsage } from '../types';
+import type { AIModelOption, VoicePreference, GeminiUsage, CustomEndpointConfig, TtsEngineConfig } from '../types';
 import type { Page } from '../App';
+import { MODELS, PROVIDERS } from '../services/modelRegistry';
+import { createBackup, downloadBackup, parseBackupFiles, restoreBackup, type ApiKeyExportMode, type MediaExportMode, type RestoreMode } from '../services/backupService';
+import type { UserData } from '../services/storageService';
 
 
 interface SettingsPanelProps {
@@ -20,24 +23,13 @@ interface SettingsPanelProps {
   geminiUsage: GeminiUsage;
   botReplyDelay: number;
   onSetBotReplyDelay: (delay: number) => void;
+  customEndpoint: CustomEndpointConfig | null;
+  onSetCustomEndpoint: (config: CustomEndpointConfig | null) => void;
+  ttsEngine: TtsEngineConfig | null;
+  onSetTtsEngine: (config: TtsEngineConfig | null) => void;
+  onDataRestored: (data: Partial<UserData>) => void;
 }
 
-// Model Display Config
-const aiModelOptions: { id: AIModelOption, name: string, quotaLimit?: number, provider: string }[] = [
-    { id: 'local-offline', name: '⚡ Local / Offline (Privacy Mode)', provider: 'Local' },
-    { id: 'gemini-3-flash-preview', name: 'Gemini 3 Flash (Fastest)', quotaLimit: 20, provider: 'Google' },
-    { id: 'gemini-3-pro-preview', name: 'Gemini 3 Pro (Smartest)', quotaLimit: 5, provider: 'Google' },
-    { id: 'deepseek-chat', name: 'DeepSeek Chat (V3)', provider: 'DeepSeek' },
-    { id: 'deepseek-reasoner', name: 'DeepSeek Reasoner (R1)', provider: 'DeepSeek' },
-    { id: 'llama-3.3-70b-versatile', name: 'LLaMA 3.3 70B (Versatile)', provider: 'Groq' },
-    { id: 'llama-3.1-8b-instant', name: 'LLaMA 3.1 8B (Instant)', provider: 'Groq' },
-    { id: 'mixtral-8x7b-32768', name: 'Mixtral 8x7B', provider: 'Groq' },
-    { id: 'gemini-2.5-flash', name: 'Gemini 2.5 Flash', quotaLimit: 15, provider: 'Google' },
-    { id: 'gemini-2.5-pro', name: 'Gemini 2.5 Pro', quotaLimit: 2, provider: 'Google' },
-    { id: 'gemini-flash-latest', name: 'Gemini Flash (Legacy)', quotaLimit: 15, provider: 'Google' },
-    { id: 'gemini-flash-lite-latest', name: 'Gemini Flash Lite', quotaLimit: 15, provider: 'Google' },
-];
-
 const GeminiUsageItem: React.FC<{ modelName: string; count: number; limit: number; isExceeded: boolean }> = ({ modelName, count, limit, isExceeded }) => {
     const status = isExceeded ? 'Limit Reached' : (count > limit * 0.8 ? 'Near Limit' : 'Available');
     const colorClass = isExceeded ? 'text-red-500' : (count > limit * 0.8 ? 'text-yellow-500' : 'text-green-500');
@@ -61,7 +53,77 @@ const GeminiUsageItem: React.FC<{ modelName: string; count: number; limit: numbe
     );
 }
 
-const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, theme, toggleTheme, onClearData, selectedAI, onSelectAI, voicePreference, onSetVoicePreference, hasConsented, onConsentChange, onNavigate, geminiUsage, botReplyDelay, onSetBotReplyDelay }) => {
+const BackupControls: React.FC<{ onDataRestored: (data: Partial<UserData>) => void }> = ({ onDataRestored }) => {
+    const [apiKeyMode, setApiKeyMode] = useState<ApiKeyExportMode>('redact');
+    const [mediaMode, setMediaMode] = useState<MediaExportMode>('inline');
+    const [restoreMode, setRestoreMode] = useState<RestoreMode>('merge');
+    const [status, setStatus] = useState<string | null>(null);
+    const [isBusy, setIsBusy] = useState(false);
+    const selectClass = "w-full bg-black/20 p-2 rounded-lg border border-white/20 text-sm focus:outline-none focus:ring-2 focus:ring-accent";
+
+    const handleExport = async () => {
+        setIsBusy(true);
+        setStatus(null);
+        try {
+            downloadBackup(await createBackup({ apiKeys: apiKeyMode, media: mediaMode }));
+            setStatus(mediaMode === 'separate' ? 'Saved backup and media pack.' : 'Backup saved.');
+        } catch (err: any) {
+            setStatus(`Export failed: ${err?.message || err}`);
+        } finally { setIsBusy(false); }
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files: File[] = e.target.files ? Array.from<File>(e.target.files) : [];
+        e.target.value = '';
+        if (files.length === 0) return;
+        setIsBusy(true);
+        setStatus(null);
+        try {
+            const backup = parseBackupFiles(await Promise.all(files.map(f => f.text())));
+            if (backup.archive.media === 'separate' && !backup.mediaPack && !window.confirm("This backup's media pack was not selected. Restore without images?")) return;
+            if (restoreMode === 'replace' && !window.confirm("Replace ALL current data with this backup?")) return;
+            onDataRestored(await restoreBackup(backup, restoreMode));
+            setStatus(`Restored backup from ${new Date(backup.archive.createdAt).toLocaleDateString()}.`);
+        } catch (err: any) {
+            setStatus(`Import failed: ${err?.message || err}`);
+        } finally { setIsBusy(false); }
+    };
+
+    return (
+        <div className="bg-white/5 dark:bg-black/10 p-4 rounded-xl space-y-3">
+            <p className="font-medium">Backup & Restore</p>
+            <label className="block text-xs text-gray-400">API keys
+                <select value={apiKeyMode} onChange={(e) => setApiKeyMode(e.target.value as ApiKeyExportMode)} className={`${selectClass} mt-1`}>
+                    <option value="redact">Redact (names only)</option>
+                    <option value="omit">Leave out</option>
+                    <option value="include">Include (keep the file private)</option>
+                </select>
+            </label>
+            <label className="block text-xs text-gray-400">Images & videos
+                <select value={mediaMode} onChange={(e) => setMediaMode(e.target.value as MediaExportMode)} className={`${selectClass} mt-1`}>
+                    <option value="inline">Inside the backup file</option>
+                    <option value="separate">Separate media pack file</option>
+                </select>
+            </label>
+            <button onClick={handleExport} disabled={isBusy} className="w-full bg-accent/80 text-white font-bold py-2 px-4 rounded-lg transition-colors disabled:opacity-50">Export Backup</button>
+
+            <label className="block text-xs text-gray-400">When importing
+                <select value={restoreMode} onChange={(e) => setRestoreMode(e.target.value as RestoreMode)} className={`${selectClass} mt-1`}>
+                    <option value="merge">Merge with current data</option>
+                    <option value="replace">Replace current data</option>
+                </select>
+            </label>
+            <label className={`block w-full text-center bg-gray-600/80 text-white font-bold py-2 px-4 rounded-lg transition-colors cursor-pointer ${isBusy ? 'opacity-50 pointer-events-none' : ''}`}>
+                Import Backup
+                <input type="file" accept="application/json,.json" multiple onChange={handleImport} className="hidden" />
+            </label>
+            <p className="text-[10px] text-gray-500 italic">For split backups, select the backup and its media pack together.</p>
+            {status && <p className="text-xs text-accent">{status}</p>}
+        </div>
+    );
+};
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, theme, toggleTheme, onClearData, selectedAI, onSelectAI, voicePreference, onSetVoicePreference, hasConsented, onConsentChange, onNavigate, geminiUsage, botReplyDelay, onSetBotReplyDelay, customEndpoint, onSetCustomEndpoint, ttsEngine, onSetTtsEngine, onDataRestored }) => {
   const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
   const [isDisclaimerExpanded, setIsDisclaimerExpanded] = useState(false);
   const [isUsageExpanded, setIsUsageExpanded] = useState(false);
@@ -81,6 +143,8 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, theme, t
     };
   }, []);
 
+  const endpointInputClass = "w-full bg-black/20 p-2 rounded-lg border border-white/20 text-sm focus:outline-none focus:ring-2 focus:ring-accent";
+
   const todayStr = useMemo(() => new Date().toISOString().split('T')[0], []);
   const todayUsage = useMemo(() => geminiUsage[todayStr] || {}, [geminiUsage, todayStr]);
 
@@ -92,14 +156,15 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, theme, t
     onNavigate('version');
   }
 
-  const groupedOptions = useMemo<Record<string, typeof aiModelOptions>>(() => {
-      const groups: Record<string, typeof aiModelOptions> = {};
-      aiModelOptions.forEach(opt => {
-          if (!groups[opt.provider]) groups[opt.provider] = [];
-          groups[opt.provider].push(opt);
-      });
-      return groups;
-  }, []);
+  const handleNavigateStorage = () => {
+    onNavigate('storage');
+  }
+
+  const groupedOptions = useMemo(() =>
+      PROVIDERS
+          .map(provider => ({ label: provider.label, options: MODELS.filter(m => m.provider === provider.id) }))
+          .filter(group => group.options.length > 0),
+  []);
 
   return (
     <>
@@ -126,7 +191,7 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, theme, t
                     {isUsageExpanded && (
                         <div className="p-4 space-y-3 animate-fadeIn">
                             <p className="text-[10px] text-gray-500 mb-2 italic">Estimates reset daily. Note: DeepSeek & Groq quotas are managed on their respective platforms.</p>
-                            {aiModelOptions.filter(opt => opt.quotaLimit).map(model => {
+                            {MODELS.filter(opt => opt.quotaLimit).map(model => {
                                 const stats = todayUsage[model.id] || { count: 0, limitReached: false };
                                 return (
                                     <GeminiUsageItem 
@@ -166,7 +231,8 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, theme, t
                 </div>
                 
                  <div className="bg-white/5 dark:bg-black/10 p-4 rounded-xl">
-                    <p className="font-medium mb-2">Voice Preference</p>
+                    <p className="font-medium mb-1">Voice Preference</p>
+                    <p className="text-xs text-gray-400 mb-2">Used by bots that don't have their own voice.</p>
                     {voices.length > 0 ? (
                         <select
                             value={voicePreference || ''}
@@ -181,15 +247,45 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, theme, t
                     ) : (
                         <p className="text-xs text-gray-400">Loading voices...</p>
                     )}
+                    <p className="font-medium mt-4 mb-2">Voice Engine</p>
+                    <div className="flex gap-2">
+                        <button onClick={() => onSetTtsEngine(ttsEngine ? { ...ttsEngine, engine: 'browser' } : null)} className={`flex-1 py-2 rounded-lg text-sm font-medium transition-colors ${ttsEngine?.engine !== 'server' ? 'bg-accent text-white' : 'bg-white/10 text-gray-400 hover:bg-white/20'}`}>Browser</button>
+                        <button onClick={() => onSetTtsEngine({ baseUrl: '', model: '', ...ttsEngine, engine: 'server' })} className={`flex-1 py-2 rounded-lg text-sm font-medium transition-colors ${ttsEngine?.engine === 'server' ? 'bg-accent text-white' : 'bg-white/10 text-gray-400 hover:bg-white/20'}`}>Voice Server</button>
+                    </div>
+                    {ttsEngine?.engine === 'server' && (
+                        <div className="mt-3 space-y-2 animate-fadeIn">
+                            <p className="text-[10px] text-gray-500 italic">Any server with an OpenAI-compatible /audio/speech endpoint (Kokoro-FastAPI, openedai-speech). It is called from this browser, so it must allow CORS. Set each bot's server voice in its voice settings; browser speech is used if the server can't be reached.</p>
+                            <input
+                                type="url"
+                                value={ttsEngine.baseUrl}
+                                onChange={(e) => onSetTtsEngine({ ...ttsEngine, baseUrl: e.target.value })}
+                                placeholder="http://192.168.1.20:8880/v1"
+                                className={endpointInputClass}
+                            />
+                            <input
+                                type="text"
+                                value={ttsEngine.model}
+                                onChange={(e) => onSetTtsEngine({ ...ttsEngine, model: e.target.value })}
+                                placeholder="Model name (optional, e.g. kokoro)"
+                                className={endpointInputClass}
+                            />
+                            <input
+                                type="password"
+                                value={ttsEngine.apiKey || ''}
+                                onChange={(e) => onSetTtsEngine({ ...ttsEngine, apiKey: e.target.value || undefined })}
+                                placeholder="API key (optional)"
+                                className={endpointInputClass}
+                            />
+                        </div>
+                    )}
                 </div>
 
                 <div className="bg-white/5 dark:bg-black/10 p-4 rounded-xl">
                     <p className="font-medium mb-2">AI Provider & Model</p>
                     <div className="space-y-4">
-                        {/* FIX: Explicitly type Object.entries result to resolve 'unknown' error on options.map */}
-                        {(Object.entries(groupedOptions) as [string, typeof aiModelOptions][]).map(([provider, options]) => (
-                            <div key={provider} className="space-y-1">
-                                <p className="text-[10px] font-bold text-gray-500 uppercase tracking-widest mb-1">{provider}</p>
+                        {groupedOptions.map(({ label, options }) => (
+                            <div key={label} className="space-y-1">
+                                <p className="text-[10px] font-bold text-gray-500 uppercase tracking-widest mb-1">{label}</p>
                                 {options.map(option => (
                                     <label key={option.id} className="flex items-center cursor-pointer p-1 hover:bg-white/5 rounded-lg transition-colors">
                                         <input 
@@ -208,11 +304,40 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, theme, t
                             </div>
                         ))}
                     </div>
+                    {selectedAI === 'custom-endpoint' && (
+                        <div className="mt-4 space-y-2 animate-fadeIn">
+                            <p className="text-[10px] text-gray-500 italic">Any OpenAI-compatible server (llama.cpp, Ollama, vLLM). The proxy server must be able to reach this URL, and its origin must be listed in the server's CUSTOM_ENDPOINT_ALLOWLIST.</p>
+                            <input
+                                type="url"
+                                value={customEndpoint?.baseUrl || ''}
+                                onChange={(e) => onSetCustomEndpoint({ model: '', ...customEndpoint, baseUrl: e.target.value })}
+                                placeholder="http://192.168.1.20:11434/v1"
+                                className={endpointInputClass}
+                            />
+                            <input
+                                type="text"
+                                value={customEndpoint?.model || ''}
+                                onChange={(e) => onSetCustomEndpoint({ baseUrl: '', ...customEndpoint, model: e.target.value })}
+                                placeholder="Model name (e.g. llama3.1:8b)"
+                                className={endpointInputClass}
+                            />
+                            <input
+                                type="password"
+                                value={customEndpoint?.apiKey || ''}
+                                onChange={(e) => onSetCustomEndpoint({ baseUrl: '', model: '', ...customEndpoint, apiKey: e.target.value || undefined })}
+                                placeholder="API key (optional)"
+                                className={endpointInputClass}
+                            />
+                        </div>
+                    )}
                 </div>
 
+                <BackupControls onDataRestored={onDataRestored} />
+
                 <div className="bg-white/5 dark:bg-black/10 p-4 rounded-xl space-y-3">
                     <p className="font-medium">App Tools</p>
                     <button onClick={handleNavigateStats} className="w-full bg-accent/80 text-white font-bold py-2 px-4 rounded-lg transition-colors">Usage Stats</button>
+                    <button onClick={handleNavigateStorage} className="w-full bg-gray-600/80 text-white font-bold py-2 px-4 rounded-lg transition-colors">Storage & Cleanup</button>
                     <button onClick={handleNavigateVersion} className="w-full bg-gray-600/80 text-white font-bold py-2 px-4 rounded-lg transition-colors">Version Info</button>
                     <button onClick={onClearData} className="w-full bg-red-600/80 text-white font-bold py-2 px-4 rounded-lg transition-colors">Clear All Data</button>
                 </div>
@@ -1,11 +1,13 @@
 
 import React from 'react';
-import type { BotProfile, Persona, ChatMessage, ChatSession } from '../types';
+import type { BotProfile, BotThreads, Persona, ChatMessage, ChatSession } from '../types';
+import { getThreadIds } from '../services/chatThreads';
 
 interface StatsDashboardProps {
   bots: BotProfile[];
   personas: Persona[];
   chatHistories: Record<string, ChatMessage[]>;
+  chatThreads: Record<string, BotThreads>;
   sessions: ChatSession[];
   onBack: () => void;
 }
@@ -41,7 +43,7 @@ const BarChart: React.FC<{ data: { label: string, value: number }[], title: stri
 };
 
 
-const StatsDashboard: React.FC<StatsDashboardProps> = ({ bots, personas, chatHistories, sessions, onBack }) => {
+const StatsDashboard: React.FC<StatsDashboardProps> = ({ bots, personas, chatHistories, chatThreads, sessions, onBack }) => {
     const totalBots = bots.length;
     const totalPersonas = personas.length;
 
@@ -61,7 +63,7 @@ const StatsDashboard: React.FC<StatsDashboardProps> = ({ bots, personas, chatHis
     const totalSessions = sessions.length;
 
     const messageCountByBot = bots.map(bot => {
-        const messages = chatHistories[bot.id] || [];
+        const messages = getThreadIds(chatThreads, bot.id).flatMap(id => chatHistories[id] || []);
         return { name: bot.name, messages: messages.length, userMessages: messages.filter(m => m.sender === 'user').length };
     });
 
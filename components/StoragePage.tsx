@@ -0,0 +1,191 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { clearQuarantinedRecords, getQuarantinedRecords, migrateData, type MigrationReport, type QuarantinedRecord, type UserData } from '../services/storageService';
+import { compressImages, dropOriginalCopies, formatBytes, getStorageReport, requestPersistentStorage, trimHistories, type ApplyCleanup, type StorageReport } from '../services/storageMonitor';
+
+interface StoragePageProps {
+  onBack: () => void;
+  onDataChanged: (data: Partial<UserData>) => void;
+}
+
+const KEY_LABELS: Partial<Record<keyof UserData, string>> = {
+  bots: 'Bot profiles',
+  personas: 'Personas',
+  chatHistories: 'Chat histories',
+  chatTrees: 'Alternate replies & branches',
+  chatSummaries: 'Story summaries',
+  botMemories: 'Memories',
+  savedImages: 'Saved images',
+  sessions: 'Session log',
+  customBlocks: 'Custom blocks',
+};
+
+const HISTORY_KEEP_OPTIONS = [50, 200, 500];
+const MAX_LISTED_ISSUES = 20;
+
+const StoragePage: React.FC<StoragePageProps> = ({ onBack, onDataChanged }) => {
+  const [report, setReport] = useState<StorageReport | null>(null);
+  const [keepLast, setKeepLast] = useState(200);
+  const [status, setStatus] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [checkReport, setCheckReport] = useState<MigrationReport | null>(null);
+  const [quarantined, setQuarantined] = useState<QuarantinedRecord[]>([]);
+
+  const refresh = useCallback(async () => {
+    try {
+      setReport(await getStorageReport());
+      setQuarantined(await getQuarantinedRecords());
+    } catch (err: any) {
+      setStatus(`Could not read storage usage: ${err?.message || err}`);
+    }
+  }, []);
+
+  useEffect(() => { refresh(); }, [refresh]);
+
+  // The cleanup hands its result to the app itself, before the app may save again.
+  const runCleanup = async (label: string, cleanup: (apply: ApplyCleanup) => Promise<number>) => {
+    setIsBusy(true);
+    setStatus(null);
+    try {
+      const freedBytes = await cleanup(onDataChanged);
+      setStatus(freedBytes > 0 ? `${label}: freed ${formatBytes(freedBytes)} of media.` : `${label}: done.`);
+      await refresh();
+    } catch (err: any) {
+      setStatus(`${label} failed: ${err?.message || err}`);
+    } finally { setIsBusy(false); }
+  };
+
+  const handleTrim = () => {
+    if (!window.confirm(`Delete all but the last ${keepLast} messages of every chat? This cannot be undone.`)) return;
+    runCleanup('Trim history', (apply) => trimHistories(keepLast, apply));
+  };
+
+  const handleDropOriginals = () => {
+    if (!window.confirm("Delete the uncropped originals? Bots keep their cropped images, but you can't re-crop from the full picture afterwards.")) return;
+    runCleanup('Drop originals', dropOriginalCopies);
+  };
+
+  const handlePersist = async () => {
+    const granted = await requestPersistentStorage();
+    setStatus(granted ? 'Your data is now protected from automatic cleanup.' : 'The browser declined. Installing the app or bookmarking it can help.');
+    await refresh();
+  };
+
+  const handleCheck = async () => {
+    setIsBusy(true);
+    try {
+      setCheckReport(await migrateData({ dryRun: true }));
+    } finally { setIsBusy(false); }
+  };
+
+  const handleDiscardQuarantined = async () => {
+    if (!window.confirm(`Permanently delete ${quarantined.length} damaged ${quarantined.length === 1 ? 'record' : 'records'}?`)) return;
+    await clearQuarantinedRecords();
+    setQuarantined([]);
+  };
+
+  const ratio = report && report.quota > 0 ? report.usage / report.quota : 0;
+  const barColor = report?.level === 'critical' ? 'bg-red-500' : report?.level === 'warning' ? 'bg-yellow-500' : 'bg-accent';
+  const botsOverLimit = report?.bots.filter(b => b.longestThread > keepLast).length || 0;
+  const buttonClass = "w-full bg-accent/80 text-white font-bold py-2 px-4 rounded-lg transition-colors disabled:opacity-50";
+
+  return (
+    <div className="h-full w-full flex flex-col p-4 bg-light-bg text-light-text dark:bg-dark-bg dark:text-dark-text animate-fadeIn">
+      <header className="flex items-center mb-6">
+        <button onClick={onBack} className="p-2 rounded-full hover:bg-white/10 dark:hover:bg-black/20">
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" /></svg>
+        </button>
+        <h1 className="text-xl font-bold flex-1 text-center pr-8">Storage</h1>
+      </header>
+      <main className="flex-1 overflow-y-auto pb-24 space-y-6">
+        {!report ? (
+          <p className="text-sm text-gray-500 text-center">Measuring...</p>
+        ) : (
+          <>
+            <div className="bg-white/5 dark:bg-black/10 p-4 rounded-xl space-y-2">
+              <div className="flex justify-between text-sm">
+                <span className="font-semibold">Used</span>
+                <span className="font-mono">{report.quota > 0 ? `${formatBytes(report.usage)} of ${formatBytes(report.quota)}` : 'Unknown'}</span>
+              </div>
+              <div className="h-2 bg-black/30 rounded-full overflow-hidden">
+                <div className={`h-full transition-all duration-500 ${barColor}`} style={{ width: `${Math.min(100, ratio * 100)}%` }} />
+              </div>
+              {report.level === 'critical' && <p className="text-xs text-red-400">Storage is almost full. New messages and images may fail to save — free some space below.</p>}
+              {report.level === 'warning' && ratio >= 0.8 && <p className="text-xs text-yellow-400">Storage is getting full ({Math.round(ratio * 100)}%). Consider a cleanup.</p>}
+              {report.shadowFull && <p className="text-xs text-yellow-400">The emergency copy in browser local storage no longer fits, so it is out of date.</p>}
+              <div className="flex justify-between items-center text-xs text-gray-400 pt-1">
+                <span>{report.persisted ? 'Protected from automatic cleanup' : 'The browser may clear this data when space runs low'}</span>
+                {!report.persisted && <button onClick={handlePersist} className="text-accent font-bold ml-2 whitespace-nowrap">Protect</button>}
+              </div>
+            </div>
+
+            <div className="bg-white/5 dark:bg-black/10 p-4 rounded-xl space-y-2 text-sm">
+              <h3 className="font-semibold mb-1">What uses space</h3>
+              <div className="flex justify-between"><span>Images & videos ({report.mediaCount})</span><span className="font-mono">{formatBytes(report.mediaBytes)}</span></div>
+              {report.keys.filter(k => k.bytes > 0 && KEY_LABELS[k.key]).map(k => (
+                <div key={k.key} className="flex justify-between"><span>{KEY_LABELS[k.key]}</span><span className="font-mono">{formatBytes(k.bytes)}</span></div>
+              ))}
+              <div className="flex justify-between text-gray-400"><span>Emergency copy (local storage)</span><span className="font-mono">{formatBytes(report.shadowBytes)}</span></div>
+            </div>
+
+            <div className="bg-white/5 dark:bg-black/10 p-4 rounded-xl">
+              <h3 className="font-semibold mb-3">By bot</h3>
+              <div className="space-y-2 max-h-60 overflow-y-auto pr-2 text-sm">
+                {report.bots.length > 0 ? report.bots.map(bot => (
+                  <div key={bot.botId} className="flex items-center gap-2">
+                    <span className="flex-1 truncate" title={bot.name}>{bot.name}</span>
+                    <span className="text-xs text-gray-400 font-mono whitespace-nowrap" title="Images & videos">{formatBytes(bot.mediaBytes)}</span>
+                    <span className="text-xs text-gray-400 font-mono whitespace-nowrap" title={`${bot.messageCount} messages`}>{formatBytes(bot.historyBytes)} chat</span>
+                  </div>
+                )) : <p className="text-sm text-gray-500 text-center">No bots yet.</p>}
+              </div>
+            </div>
+          </>
+        )}
+
+        <div className="bg-white/5 dark:bg-black/10 p-4 rounded-xl space-y-3">
+          <h3 className="font-semibold">Free up space</h3>
+          <label className="block text-xs text-gray-400">Keep the last
+            <select value={keepLast} onChange={(e) => setKeepLast(Number(e.target.value))} className="w-full bg-black/20 p-2 rounded-lg border border-white/20 text-sm focus:outline-none focus:ring-2 focus:ring-accent mt-1">
+              {HISTORY_KEEP_OPTIONS.map(n => <option key={n} value={n}>{n} messages per chat</option>)}
+            </select>
+          </label>
+          <button onClick={handleTrim} disabled={isBusy || botsOverLimit === 0} className={buttonClass}>
+            Trim Old History{report ? ` (${botsOverLimit} ${botsOverLimit === 1 ? 'chat' : 'chats'})` : ''}
+          </button>
+          <button onClick={handleDropOriginals} disabled={isBusy} className={buttonClass}>Drop Uncropped Originals</button>
+          <button onClick={() => runCleanup('Compress images', compressImages)} disabled={isBusy} className={buttonClass}>Compress Large Images</button>
+          <p className="text-[10px] text-gray-500 italic">Media changed in the last few minutes is freed on a later visit.</p>
+          {status && <p className="text-xs text-accent">{status}</p>}
+        </div>
+
+        <div className="bg-white/5 dark:bg-black/10 p-4 rounded-xl space-y-3 text-sm">
+          <h3 className="font-semibold">Data check</h3>
+          <p className="text-xs text-gray-400">Looks for damaged records without changing anything. Damaged records found while loading are set aside here instead of being loaded.</p>
+          <button onClick={handleCheck} disabled={isBusy} className={buttonClass}>Check Data</button>
+          {checkReport && (
+            <div className="space-y-1 text-xs">
+              {checkReport.error && <p className="text-red-400">{checkReport.error}</p>}
+              <p>Schema v{checkReport.fromVersion}{checkReport.applied.length > 0 ? ` → v${checkReport.toVersion}` : ' (up to date)'}</p>
+              {checkReport.applied.map(step => <p key={step} className="text-gray-400">Pending: {step}</p>)}
+              {checkReport.issues.length === 0 && !checkReport.error && <p className="text-accent">No problems found.</p>}
+              {checkReport.issues.slice(0, MAX_LISTED_ISSUES).map((issue, i) => (
+                <p key={i} className={issue.severity === 'error' ? 'text-red-400' : 'text-yellow-400'}>
+                  <span className="font-mono">{issue.path}</span>: {issue.message}
+                </p>
+              ))}
+              {checkReport.issues.length > MAX_LISTED_ISSUES && <p className="text-gray-500">...and {checkReport.issues.length - MAX_LISTED_ISSUES} more.</p>}
+            </div>
+          )}
+          {quarantined.length > 0 && (
+            <div className="flex justify-between items-center text-xs text-yellow-400">
+              <span>{quarantined.length} damaged {quarantined.length === 1 ? 'record was' : 'records were'} set aside.</span>
+              <button onClick={handleDiscardQuarantined} className="text-red-400 font-bold ml-2 whitespace-nowrap">Delete</button>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default StoragePage;
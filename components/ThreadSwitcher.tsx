@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import type { ChatThread } from '../types';
+import type { ThreadStats } from '../services/chatThreads';
+
+interface ThreadSwitcherProps {
+  threads: ChatThread[];
+  activeThreadId: string;
+  stats: Record<string, ThreadStats>;
+  onSelect: (threadId: string) => void;
+  onRename: (threadId: string, name: string) => void;
+  onArchive: (threadId: string, archived: boolean) => void;
+  onNew: () => void;
+  onClose: () => void;
+}
+
+const formatLastActive = (time: number) => time > 0 ? new Date(time).toLocaleDateString(undefined, { month: 'short', day: 'numeric' }) : 'No messages';
+
+const ThreadSwitcher: React.FC<ThreadSwitcherProps> = ({ threads, activeThreadId, stats, onSelect, onRename, onArchive, onNew, onClose }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [showArchived, setShowArchived] = useState(false);
+
+  // Most recently active first.
+  const byActivity = (a: ChatThread, b: ChatThread) => (stats[b.id]?.lastActive || b.createdAt) - (stats[a.id]?.lastActive || a.createdAt);
+  const open = threads.filter(t => !t.archived).sort(byActivity);
+  const archived = threads.filter(t => t.archived).sort(byActivity);
+
+  const handleSaveName = () => {
+    if (editingId && editName.trim()) onRename(editingId, editName);
+    setEditingId(null);
+  };
+
+  const renderThread = (thread: ChatThread) => {
+    const s = stats[thread.id];
+    const isActive = thread.id === activeThreadId;
+    return (
+      <div key={thread.id} className={`p-3 rounded-xl border ${isActive ? 'border-accent/60 bg-accent/10' : 'border-white/10 bg-white/5'}`}>
+        {editingId === thread.id ? (
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={editName}
+              onChange={(e) => setEditName(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') handleSaveName(); if (e.key === 'Escape') setEditingId(null); }}
+              autoFocus
+              className="flex-1 bg-black/30 p-2 rounded-lg text-sm border border-white/10 focus:outline-none focus:ring-2 focus:ring-accent"
+            />
+            <button type="button" onClick={handleSaveName} className="text-xs px-3 py-1 rounded-lg bg-accent text-white font-bold">Save</button>
+          </div>
+        ) : (
+          <div className="flex items-center gap-2">
+            <button type="button" onClick={() => onSelect(thread.id)} className="flex-1 text-left min-w-0">
+              <p className="text-sm font-bold truncate">{thread.name}</p>
+              <p className="text-[10px] text-gray-400">{s?.messageCount || 0} messages · {s?.minutes || 0} min · {formatLastActive(s?.lastActive || 0)}</p>
+            </button>
+            <button type="button" onClick={() => { setEditingId(thread.id); setEditName(thread.name); }} className="text-xs px-2 py-1 rounded-lg bg-black/30 text-gray-300 hover:bg-accent/50">Rename</button>
+            {thread.archived ? (
+              <button type="button" onClick={() => onArchive(thread.id, false)} className="text-xs px-2 py-1 rounded-lg bg-black/30 text-gray-300 hover:bg-accent/50">Restore</button>
+            ) : (
+              <button type="button" onClick={() => onArchive(thread.id, true)} disabled={open.length < 2} className="text-xs px-2 py-1 rounded-lg bg-black/30 text-gray-300 hover:bg-accent/50 disabled:opacity-30">Archive</button>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 animate-fadeIn p-4" onClick={onClose}>
+      <div className="bg-dark-bg rounded-2xl shadow-2xl relative max-w-md w-full mx-auto p-6 max-h-[85vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-xl font-bold mb-4">Threads</h2>
+        <div className="flex-1 overflow-y-auto space-y-2 no-scrollbar">
+          {open.map(renderThread)}
+          {archived.length > 0 && (
+            <button type="button" onClick={() => setShowArchived(!showArchived)} className="w-full text-xs text-gray-400 py-2 hover:text-accent">
+              {showArchived ? 'Hide archived' : `Show archived (${archived.length})`}
+            </button>
+          )}
+          {showArchived && archived.map(renderThread)}
+        </div>
+        <div className="flex gap-2 mt-6">
+          <button type="button" onClick={onClose} className="flex-1 bg-gray-500 text-white font-bold py-3 px-4 rounded-2xl transition-colors">Close</button>
+          <button type="button" onClick={onNew} className="flex-1 bg-accent text-white font-bold py-3 px-4 rounded-2xl transition-colors">New Thread</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ThreadSwitcher;
@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+
+interface UnlockPromptProps {
+  encryptsChats: boolean;
+  onUnlock: (passphrase: string) => Promise<void>;
+  onWipe: () => Promise<void>;
+}
+
+const UnlockPrompt: React.FC<UnlockPromptProps> = ({ encryptsChats, onUnlock, onWipe }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase || isBusy) return;
+    setIsBusy(true);
+    setError(null);
+    try {
+      await onUnlock(passphrase);
+    } catch (err: any) {
+      setError(err?.message || 'Could not unlock.');
+      setPassphrase('');
+    } finally { setIsBusy(false); }
+  };
+
+  const handleForgot = async () => {
+    const lost = encryptsChats ? 'your API keys and all chats' : 'your API keys';
+    if (!window.confirm(`Without the passphrase the locked data can't be recovered. Delete ${lost} and remove the lock? Bots and personas are kept.`)) return;
+    setIsBusy(true);
+    try { await onWipe(); } finally { setIsBusy(false); }
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 bg-black/90 flex items-center justify-center p-4 animate-fadeIn">
+      <form onSubmit={handleUnlock} className="bg-dark-bg text-dark-text w-full max-w-sm rounded-3xl p-6 border border-white/10 shadow-2xl space-y-4">
+        <h3 className="text-xl font-bold">Vault Locked 🔐</h3>
+        <p className="text-sm text-gray-400">Enter your passphrase to unlock {encryptsChats ? 'your API keys and chats' : 'your API keys'}.</p>
+        <input
+          type="password"
+          value={passphrase}
+          onChange={e => setPassphrase(e.target.value)}
+          placeholder="Passphrase"
+          autoFocus
+          className="w-full bg-black/20 p-3 rounded-xl border border-white/20 focus:outline-none focus:ring-2 focus:ring-accent"
+        />
+        {error && <p className="text-xs text-red-400">{error}</p>}
+        <button type="submit" disabled={isBusy || !passphrase} className="w-full py-3 bg-accent rounded-xl font-bold text-white shadow-lg disabled:opacity-50">
+          {isBusy ? 'Unlocking...' : 'Unlock'}
+        </button>
+        <button type="button" onClick={handleForgot} disabled={isBusy} className="w-full text-xs text-red-400 hover:underline">Forgot passphrase? Wipe locked data</button>
+      </form>
+    </div>
+  );
+};
+
+export default UnlockPrompt;
@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import type { EncryptionSettings } from '../services/encryptionService';
+import { disableVaultLock, enableVaultLock, setAutoLockMinutes, setChatEncryption } from '../services/storageService';
+
+interface VaultLockPanelProps {
+  settings: EncryptionSettings | null;
+  onSettingsChanged: () => void;
+  onLockNow: () => void;
+}
+
+const AUTO_LOCK_OPTIONS = [0, 5, 15, 30, 60];
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const VaultLockPanel: React.FC<VaultLockPanelProps> = ({ settings, onSettingsChanged, onLockNow }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [encryptChats, setEncryptChats] = useState(false);
+  const [autoLockMinutes, setAutoLock] = useState(15);
+  const [status, setStatus] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const run = async (action: () => Promise<void>, done: string) => {
+    setIsBusy(true);
+    setStatus(null);
+    try {
+      await action();
+      setStatus(done);
+      onSettingsChanged();
+    } catch (err: any) {
+      setStatus(`Failed: ${err?.message || err}`);
+    } finally { setIsBusy(false); }
+  };
+
+  const handleEnable = () => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) { setStatus(`Use at least ${MIN_PASSPHRASE_LENGTH} characters.`); return; }
+    if (passphrase !== confirmPassphrase) { setStatus("The passphrases don't match."); return; }
+    run(async () => {
+      await enableVaultLock(passphrase, { encryptChats, autoLockMinutes });
+      setPassphrase('');
+      setConfirmPassphrase('');
+    }, 'Lock is on. Keep your passphrase safe: it cannot be recovered.');
+  };
+
+  const handleDisable = () => {
+    if (!window.confirm('Remove the lock? Your API keys and chats will be stored unencrypted again.')) return;
+    run(disableVaultLock, 'Lock removed.');
+  };
+
+  const inputClass = "w-full bg-black/20 p-2 rounded-lg border border-white/20 text-sm focus:outline-none focus:ring-2 focus:ring-accent";
+
+  return (
+    <div className="bg-white/5 dark:bg-black/20 p-4 rounded-2xl border border-white/5 space-y-3 text-sm">
+      <h3 className="font-bold">Passphrase Lock 🔐</h3>
+      {settings ? (
+        <>
+          <p className="text-xs text-gray-400">API keys{settings.encryptChats ? ' and chats are' : ' are'} encrypted on this device.</p>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input type="checkbox" checked={settings.encryptChats} disabled={isBusy} onChange={e => { const on = e.target.checked; run(() => setChatEncryption(on), on ? 'Chats are now encrypted.' : 'Chats are no longer encrypted.'); }} className="h-4 w-4 rounded text-accent focus:ring-accent" />
+            <span>Also encrypt chats</span>
+          </label>
+          <label className="block text-xs text-gray-400">Lock after inactivity
+            <select value={settings.autoLockMinutes} disabled={isBusy} onChange={e => { const minutes = Number(e.target.value); run(() => setAutoLockMinutes(minutes), 'Saved.'); }} className={`${inputClass} mt-1`}>
+              {AUTO_LOCK_OPTIONS.map(m => <option key={m} value={m}>{m === 0 ? 'Never' : `${m} minutes`}</option>)}
+            </select>
+          </label>
+          <div className="flex gap-2">
+            <button onClick={onLockNow} disabled={isBusy} className="flex-1 py-2 bg-accent rounded-xl font-bold text-white disabled:opacity-50">Lock Now</button>
+            <button onClick={handleDisable} disabled={isBusy} className="flex-1 py-2 bg-white/5 rounded-xl font-bold text-red-400 disabled:opacity-50">Remove Lock</button>
+          </div>
+        </>
+      ) : (
+        <>
+          <p className="text-xs text-gray-400">Encrypt your keys with a passphrase you enter when the app opens. If you forget it, the locked data has to be deleted.</p>
+          <input type="password" value={passphrase} onChange={e => setPassphrase(e.target.value)} placeholder="Passphrase" className={inputClass} />
+          <input type="password" value={confirmPassphrase} onChange={e => setConfirmPassphrase(e.target.value)} placeholder="Repeat passphrase" className={inputClass} />
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input type="checkbox" checked={encryptChats} onChange={e => setEncryptChats(e.target.checked)} className="h-4 w-4 rounded text-accent focus:ring-accent" />
+            <span>Also encrypt chats</span>
+          </label>
+          <label className="block text-xs text-gray-400">Lock after inactivity
+            <select value={autoLockMinutes} onChange={e => setAutoLock(Number(e.target.value))} className={`${inputClass} mt-1`}>
+              {AUTO_LOCK_OPTIONS.map(m => <option key={m} value={m}>{m === 0 ? 'Never' : `${m} minutes`}</option>)}
+            </select>
+          </label>
+          <button onClick={handleEnable} disabled={isBusy || !passphrase} className="w-full py-2 bg-accent rounded-xl font-bold text-white disabled:opacity-50">
+            {isBusy ? 'Encrypting...' : 'Turn On Lock'}
+          </button>
+        </>
+      )}
+      {status && <p className="text-xs text-accent">{status}</p>}
+    </div>
+  );
+};
+
+export default VaultLockPanel;
@@ -0,0 +1,94 @@
+import React, { useEffect, useState } from 'react';
+import type { ActionReading, VoicePreference, VoiceProfile } from '../types';
+import { getVoiceEngineId, speak, stopSpeaking } from '../services/voiceService';
+
+interface VoiceProfileEditorProps {
+  profile: VoiceProfile;
+  onChange: (profile: VoiceProfile) => void;
+  botName: string;
+  defaultVoice: VoicePreference | null; // the voice picked in Settings
+}
+
+const ACTION_OPTIONS: { value: ActionReading; label: string }[] = [
+  { value: 'read', label: 'Read' },
+  { value: 'whisper', label: 'Whisper' },
+  { value: 'skip', label: 'Skip' },
+];
+
+const VoiceProfileEditor: React.FC<VoiceProfileEditorProps> = ({ profile, onChange, botName, defaultVoice }) => {
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+
+  useEffect(() => {
+    const loadVoices = () => {
+      const availableVoices = window.speechSynthesis.getVoices();
+      if (availableVoices.length > 0) setVoices(availableVoices);
+    };
+    loadVoices();
+    window.speechSynthesis.addEventListener('voiceschanged', loadVoices);
+    return () => {
+      window.speechSynthesis.removeEventListener('voiceschanged', loadVoices);
+      stopSpeaking();
+    };
+  }, []);
+
+  const usesServer = getVoiceEngineId() === 'server';
+
+  const update = (changes: Partial<VoiceProfile>) => onChange({ ...profile, ...changes });
+
+  const handlePreview = () => {
+    speak({ text: `Hi, I'm ${botName || 'your new bot'}. *smiles softly* This is how I sound.`, profile, fallbackVoice: defaultVoice });
+  };
+
+  const sliderClass = "w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-accent";
+  const selectClass = "w-full bg-black/20 p-2 rounded-lg border border-white/20 text-sm focus:outline-none focus:ring-2 focus:ring-accent";
+
+  const slider = (label: string, key: 'rate' | 'pitch' | 'volume', min: number, max: number, format: (v: number) => string) => (
+    <div>
+      <div className="flex justify-between text-xs text-gray-400 mb-1">
+        <span>{label}</span>
+        <span>{format(profile[key])}</span>
+      </div>
+      <input type="range" min={min} max={max} step={0.1} value={profile[key]} onChange={(e) => update({ [key]: parseFloat(e.target.value) })} className={sliderClass} />
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      {usesServer && (
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">Server voice</label>
+          <input type="text" value={profile.serverVoice || ''} onChange={(e) => update({ serverVoice: e.target.value })} placeholder="Voice id on your voice server (e.g. af_bella)" className={selectClass} />
+        </div>
+      )}
+      <div>
+        <label className="block text-xs text-gray-400 mb-1">{usesServer ? 'Browser voice (if the server is unreachable)' : 'Voice'}</label>
+        <select value={profile.voiceName || ''} onChange={(e) => update({ voiceName: e.target.value || null })} className={selectClass}>
+          <option value="">Default{defaultVoice ? ` (${defaultVoice})` : ''}</option>
+          {voices.map(voice => <option key={voice.name} value={voice.name}>{voice.name}</option>)}
+        </select>
+      </div>
+      {slider('Speed', 'rate', 0.5, 2, v => `${v.toFixed(1)}x`)}
+      {slider('Pitch', 'pitch', 0, 2, v => v.toFixed(1))}
+      {slider('Volume', 'volume', 0, 1, v => `${Math.round(v * 100)}%`)}
+      <div>
+        <label className="block text-xs text-gray-400 mb-1">*Actions* in replies</label>
+        <div className="flex gap-2">
+          {ACTION_OPTIONS.map(option => (
+            <button key={option.value} type="button" onClick={() => update({ actions: option.value })} className={`flex-1 py-2 rounded-lg text-sm font-medium transition-colors ${profile.actions === option.value ? 'bg-accent text-white' : 'bg-white/10 text-gray-400 hover:bg-white/20'}`}>
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <label className="flex items-center justify-between text-sm cursor-pointer">
+        <span>Auto-read new replies</span>
+        <input type="checkbox" checked={profile.autoRead} onChange={(e) => update({ autoRead: e.target.checked })} className="h-4 w-4 accent-accent" />
+      </label>
+      <button type="button" onClick={handlePreview} className="w-full py-2 rounded-lg bg-white/10 hover:bg-white/20 text-sm font-bold transition-colors">
+        ▶ Preview Voice
+      </button>
+    </div>
+  );
+};
+
+export default VoiceProfileEditor;
@@ -0,0 +1,214 @@
+import type { ApiKeyEntry, BotMemory, BotThreads, ChatMessage, ChatSession, LoreEntry } from '../types';
+import { collectMediaGarbage, flushUserData, migrateData, loadRawUserData, loadUserData, replaceUserData, type UserData } from './storageService';
+import { BASELINE_SCHEMA_VERSION, migrateUserData, SCHEMA_VERSION } from './schemaMigrations';
+import { isVaultLocked } from './encryptionService';
+import { getMediaDataUrl, isMediaRef, mapStrings, MEDIA_REF_PREFIX, toPortableMedia, toStoredMedia } from './mediaStore';
+
+/**
+ * 💾 BACKUP & RESTORE
+ * Exports every stored key into one versioned JSON archive and reads it back,
+ * either replacing the local data or merging into it. Large media can travel
+ * inline or in a separate media pack, referenced by `zia-media://<sha256>`.
+ */
+
+export const BACKUP_FORMAT = 'zia-backup';
+export const MEDIA_PACK_FORMAT = 'zia-media-pack';
+export const BACKUP_VERSION = 1;
+
+export type ApiKeyExportMode = 'include' | 'redact' | 'omit';
+export type MediaExportMode = 'inline' | 'separate';
+export type RestoreMode = 'merge' | 'replace';
+
+export interface BackupArchive {
+    format: typeof BACKUP_FORMAT;
+    version: number;
+    createdAt: string;
+    apiKeys: ApiKeyExportMode;
+    media: MediaExportMode;
+    schemaVersion?: number; // absent in archives made before schema versioning
+    data: Partial<UserData>;
+}
+
+export interface MediaPack {
+    format: typeof MEDIA_PACK_FORMAT;
+    version: number;
+    items: Record<string, string>; // sha256 -> data URL
+}
+
+export interface BackupOptions {
+    apiKeys: ApiKeyExportMode;
+    media: MediaExportMode;
+}
+
+export interface ParsedBackup {
+    archive: BackupArchive;
+    mediaPack: MediaPack | null;
+}
+
+// Each step upgrades an archive from `version` to `version + 1`.
+const MIGRATIONS: Record<number, (archive: any) => any> = {
+    // v0: a bare UserData object, e.g. the localStorage shadow copy saved by hand.
+    0: (legacy) => ({
+        format: BACKUP_FORMAT,
+        version: 1,
+        createdAt: new Date().toISOString(),
+        apiKeys: legacy.apiKeys ? 'include' : 'omit',
+        media: 'inline',
+        data: legacy
+    }),
+};
+
+const redactSecrets = (data: Partial<UserData>, mode: ApiKeyExportMode): Partial<UserData> => {
+    if (mode === 'include') return data;
+    const { apiKeys, ...rest } = data;
+    const customEndpoint = data.customEndpoint ? { ...data.customEndpoint, apiKey: undefined } : data.customEndpoint;
+    const ttsEngine = data.ttsEngine ? { ...data.ttsEngine, apiKey: undefined } : data.ttsEngine;
+    if (mode === 'omit') return { ...rest, customEndpoint, ttsEngine };
+    // Redacted keys keep their name and provider so they can be re-entered after restore.
+    return { ...rest, customEndpoint, ttsEngine, apiKeys: (apiKeys || []).map(k => ({ ...k, key: '', isActive: false })) };
+};
+
+// While locked, encrypted keys read as missing: a backup would silently leave them out, a restore would wipe them.
+const requireUnlocked = () => {
+    if (isVaultLocked()) throw new Error('Unlock the vault before backing up or restoring.');
+};
+
+export const createBackup = async (options: BackupOptions): Promise<ParsedBackup> => {
+    requireUnlocked();
+    await flushUserData();
+    // Stored data already references media by content hash, so a split backup keeps the refs as they are.
+    const stored = redactSecrets(await loadRawUserData(), options.apiKeys);
+
+    let data = stored;
+    let mediaPack: MediaPack | null = null;
+    if (options.media === 'inline') {
+        data = await toPortableMedia(stored);
+    } else {
+        const items: Record<string, string> = {};
+        data = await mapStrings(stored, isMediaRef, async (ref) => {
+            const dataUrl = await getMediaDataUrl(ref);
+            if (!dataUrl) return null;
+            items[ref.slice(MEDIA_REF_PREFIX.length)] = dataUrl;
+            return ref;
+        });
+        mediaPack = { format: MEDIA_PACK_FORMAT, version: BACKUP_VERSION, items };
+    }
+
+    return {
+        archive: { format: BACKUP_FORMAT, version: BACKUP_VERSION, createdAt: new Date().toISOString(), apiKeys: options.apiKeys, media: options.media, schemaVersion: SCHEMA_VERSION, data },
+        mediaPack
+    };
+};
+
+const downloadJson = (value: unknown, filename: string) => {
+    const url = URL.createObjectURL(new Blob([JSON.stringify(value)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const downloadBackup = ({ archive, mediaPack }: ParsedBackup) => {
+    const stamp = archive.createdAt.slice(0, 10);
+    downloadJson(archive, `zia-backup-${stamp}.json`);
+    if (mediaPack) downloadJson(mediaPack, `zia-media-${stamp}.json`);
+};
+
+const migrateArchive = (raw: any): BackupArchive => {
+    let archive = raw?.format === BACKUP_FORMAT ? raw : MIGRATIONS[0](raw);
+    if (typeof archive.version !== 'number' || archive.version > BACKUP_VERSION) {
+        throw new Error(`This backup was made by a newer version of the app (v${archive.version}).`);
+    }
+    while (archive.version < BACKUP_VERSION) {
+        const migrate = MIGRATIONS[archive.version];
+        if (!migrate) throw new Error(`No upgrade path for backup version ${archive.version}.`);
+        archive = migrate(archive);
+    }
+    if (!archive.data || typeof archive.data !== 'object' || (archive.data.bots && !Array.isArray(archive.data.bots))) {
+        throw new Error('Backup file is damaged: missing data.');
+    }
+    return archive;
+};
+
+// Accepts the archive and, for split backups, its media pack, in any order.
+export const parseBackupFiles = (contents: string[]): ParsedBackup => {
+    let archive: BackupArchive | null = null;
+    let mediaPack: MediaPack | null = null;
+    for (const content of contents) {
+        let parsed: any;
+        try { parsed = JSON.parse(content); } catch { throw new Error('Not a valid backup file (JSON expected).'); }
+        if (parsed?.format === MEDIA_PACK_FORMAT) mediaPack = parsed;
+        else archive = migrateArchive(parsed);
+    }
+    if (!archive) throw new Error('Select the backup file (zia-backup-*.json), not only the media pack.');
+    return { archive, mediaPack };
+};
+
+const resolveMedia = (data: Partial<UserData>, mediaPack: MediaPack | null): Promise<Partial<UserData>> =>
+    mapStrings(data, isMediaRef, async (ref) => mediaPack?.items[ref.slice(MEDIA_REF_PREFIX.length)] ?? null);
+
+const unionBy = <T>(local: T[] = [], incoming: T[] = [], key: (item: T) => string): T[] => {
+    const seen = new Set(local.map(key));
+    return [...local, ...incoming.filter(item => !seen.has(key(item)))];
+};
+
+const mergeRecords = <T>(local: Record<string, T> = {}, incoming: Record<string, T> = {}, merge: (a: T, b: T) => T): Record<string, T> => {
+    const result = { ...incoming, ...local };
+    Object.keys(local).forEach(k => { if (k in incoming) result[k] = merge(local[k], incoming[k]); });
+    return result;
+};
+
+// Local items win on id clashes; chats are merged message by message.
+const mergeUserData = (local: Partial<UserData>, incoming: Partial<UserData>): Partial<UserData> => ({
+    ...incoming,
+    ...local,
+    bots: unionBy(local.bots, incoming.bots, b => b.id),
+    personas: unionBy(local.personas, incoming.personas, p => p.id),
+    customBlocks: unionBy(local.customBlocks, incoming.customBlocks, b => b.id),
+    savedImages: unionBy(local.savedImages, incoming.savedImages, s => s),
+    sessions: unionBy<ChatSession>(local.sessions, incoming.sessions, s => `${s.botId}:${s.startTime}`),
+    apiKeys: unionBy<ApiKeyEntry>(local.apiKeys, incoming.apiKeys, k => k.id),
+    chatHistories: mergeRecords<ChatMessage[]>(local.chatHistories, incoming.chatHistories,
+        (a, b) => unionBy(a, b, m => m.id).sort((x, y) => x.timestamp - y.timestamp)),
+    botMemories: mergeRecords<BotMemory[]>(local.botMemories, incoming.botMemories, (a, b) => unionBy(a, b, m => m.id)),
+    botUsage: mergeRecords<number>(local.botUsage, incoming.botUsage, (a, b) => Math.max(a, b)),
+    chatSummaries: { ...incoming.chatSummaries, ...local.chatSummaries },
+    chatTrees: { ...incoming.chatTrees, ...local.chatTrees },
+    groupChats: { ...incoming.groupChats, ...local.groupChats },
+    chatThreads: mergeRecords<BotThreads>(local.chatThreads, incoming.chatThreads, (a, b) => ({ ...a, threads: unionBy(a.threads, b.threads, t => t.id) })),
+    lorebook: local.lorebook && incoming.lorebook
+        ? { ...local.lorebook, entries: unionBy<LoreEntry>(local.lorebook.entries, incoming.lorebook.entries, e => e.id) }
+        : local.lorebook || incoming.lorebook,
+});
+
+/**
+ * Writes a parsed backup into storage and returns the resulting data for the app to load.
+ * Secrets missing from the archive (omitted or redacted) never overwrite the local ones.
+ */
+export const restoreBackup = async ({ archive, mediaPack }: ParsedBackup, mode: RestoreMode): Promise<Partial<UserData>> => {
+    requireUnlocked();
+    // Incoming media goes into the media store first, so copies of local media merge by content hash.
+    const resolved = await toStoredMedia(await resolveMedia(archive.data, mediaPack));
+    const incoming = migrateUserData(resolved, archive.schemaVersion ?? BASELINE_SCHEMA_VERSION).data;
+    await flushUserData();
+    const local = await loadRawUserData();
+
+    let result: Partial<UserData>;
+    if (mode === 'replace') {
+        result = { ...incoming };
+        if (archive.apiKeys !== 'include') {
+            result.apiKeys = unionBy<ApiKeyEntry>(local.apiKeys, incoming.apiKeys, k => k.id);
+            if (result.customEndpoint && local.customEndpoint?.apiKey) result.customEndpoint = { ...result.customEndpoint, apiKey: local.customEndpoint.apiKey };
+            if (result.ttsEngine && local.ttsEngine?.apiKey) result.ttsEngine = { ...result.ttsEngine, apiKey: local.ttsEngine.apiKey };
+        }
+    } else {
+        result = mergeUserData(local, incoming);
+    }
+
+    await replaceUserData(result);
+    // Validates the restored data; malformed records are quarantined instead of loaded.
+    await migrateData();
+    await collectMediaGarbage();
+    return loadUserData();
+};
@@ -0,0 +1,147 @@
+import type { BotProfile, ChatMessage } from '../types';
+import { toPortableMedia } from './mediaStore';
+import { BASELINE_SCHEMA_VERSION, migrateUserData } from './schemaMigrations';
+
+/**
+ * 🪪 BOT CARDS
+ * Moves single characters between devices. Exports use Zia's own JSON card
+ * (profile plus optional chat). Imports also accept the Tavern character-card
+ * formats (chara_card v1/v2/v3) as JSON or as PNG with the card in a tEXt chunk.
+ */
+
+export const BOT_CARD_FORMAT = 'zia-bot-card';
+export const BOT_CARD_VERSION = 1;
+
+// Everything that describes the character; ids and per-device links are not exported.
+export type BotCardProfile = Omit<BotProfile, 'id' | 'personaId' | 'restoredHistory'>;
+
+export interface BotCard {
+    format: typeof BOT_CARD_FORMAT;
+    version: number;
+    exportedAt: string;
+    bot: BotCardProfile;
+    history?: ChatMessage[];
+}
+
+export interface ImportedBotCard {
+    profile: Partial<BotCardProfile>;
+    history?: ChatMessage[];
+    source: 'zia' | 'tavern';
+}
+
+export const exportBotCard = async (bot: BotProfile, history?: ChatMessage[]) => {
+    const { id, personaId, restoredHistory, ...profile } = bot;
+    // Media lives in this device's media store; the card carries its own copies.
+    const card: BotCard = { format: BOT_CARD_FORMAT, version: BOT_CARD_VERSION, exportedAt: new Date().toISOString(), bot: await toPortableMedia(profile) };
+    if (history && history.length > 0) card.history = await toPortableMedia(history);
+
+    const url = URL.createObjectURL(new Blob([JSON.stringify(card)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${bot.name.replace(/[^\w-]+/g, '_') || 'bot'}.zia.json`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+const readAsDataURL = (file: Blob): Promise<string> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+});
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+// Reads the tEXt chunks of a PNG into keyword -> text.
+const readPngTextChunks = (buffer: ArrayBuffer): Record<string, string> => {
+    const bytes = new Uint8Array(buffer);
+    if (!PNG_SIGNATURE.every((b, i) => bytes[i] === b)) throw new Error('Not a PNG image.');
+    const view = new DataView(buffer);
+    const latin1 = new TextDecoder('latin1');
+    const chunks: Record<string, string> = {};
+
+    let offset = 8;
+    while (offset + 8 <= bytes.length) {
+        const length = view.getUint32(offset);
+        const type = latin1.decode(bytes.subarray(offset + 4, offset + 8));
+        const data = bytes.subarray(offset + 8, offset + 8 + length);
+        if (type === 'tEXt') {
+            const separator = data.indexOf(0);
+            if (separator > 0) chunks[latin1.decode(data.subarray(0, separator))] = latin1.decode(data.subarray(separator + 1));
+        }
+        if (type === 'IEND') break;
+        offset += 12 + length; // length + type + data + crc
+    }
+    return chunks;
+};
+
+const decodeBase64Utf8 = (base64: string): string =>
+    new TextDecoder().decode(Uint8Array.from(atob(base64.trim()), c => c.charCodeAt(0)));
+
+const text = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+// Tavern templates use {{char}}/{{user}} (and the older <BOT>/<USER>).
+const fillPlaceholders = (value: string, name: string) =>
+    value.replace(/{{char}}|<BOT>/gi, name).replace(/{{user}}|<USER>/gi, 'User');
+
+const firstSentence = (value: string) => {
+    const sentence = value.split(/(?<=[.!?])\s/)[0].trim();
+    return sentence.length > 80 ? `${sentence.slice(0, 77)}...` : sentence;
+};
+
+// Maps a Tavern card (v1 fields at the top level, v2/v3 under `data`) onto a Zia profile.
+const fromTavernCard = (card: any): ImportedBotCard => {
+    const data = card?.spec === 'chara_card_v2' || card?.spec === 'chara_card_v3' ? card.data : card;
+    const name = text(data?.name);
+    if (!name) throw new Error('Character card has no name.');
+    const fill = (value: unknown) => fillPlaceholders(text(value), name);
+
+    const personality = [
+        fill(data.description),
+        data.personality ? `Personality: ${fill(data.personality)}` : '',
+        data.scenario ? `Scenario: ${fill(data.scenario)}` : '',
+        data.mes_example ? `Example dialogue:\n${fill(data.mes_example)}` : '',
+        data.post_history_instructions ? fill(data.post_history_instructions) : '',
+    ].filter(Boolean).join('\n\n');
+
+    return {
+        source: 'tavern',
+        profile: {
+            name,
+            description: firstSentence(fill(data.creator_notes) || fill(data.personality) || fill(data.description)) || `${name}, imported from a character card.`,
+            personality,
+            scenario: fill(data.first_mes),
+        }
+    };
+};
+
+const fromZiaCard = (card: any): ImportedBotCard => {
+    if (typeof card.version !== 'number' || card.version > BOT_CARD_VERSION) {
+        throw new Error('This bot card was made by a newer version of the app.');
+    }
+    if (!card.bot || !text(card.bot.name)) throw new Error('Bot card is damaged: missing profile.');
+    // Cards carry a whole profile, so older ones get the same upgrades as stored bots.
+    const [bot] = migrateUserData({ bots: [card.bot] }, BASELINE_SCHEMA_VERSION).data.bots!;
+    const history = Array.isArray(card.history) ? card.history.filter((m: any) => m && typeof m.text === 'string' && m.id) : undefined;
+    return { source: 'zia', profile: bot, history };
+};
+
+const parseCardJson = (raw: string): ImportedBotCard => {
+    let card: any;
+    try { card = JSON.parse(raw); } catch { throw new Error('Not a valid card file (JSON expected).'); }
+    return card?.format === BOT_CARD_FORMAT ? fromZiaCard(card) : fromTavernCard(card);
+};
+
+export const importBotCard = async (file: File): Promise<ImportedBotCard> => {
+    const isPng = file.type === 'image/png' || /\.png$/i.test(file.name);
+    if (!isPng) return parseCardJson(await file.text());
+
+    const chunks = readPngTextChunks(await file.arrayBuffer());
+    // V3 cards also carry a v2 `chara` chunk for older readers; prefer the newer one.
+    const payload = chunks.ccv3 || chunks.chara;
+    if (!payload) throw new Error('This PNG has no character card data.');
+    const imported = parseCardJson(decodeBase64Utf8(payload));
+    // The card image is the character's portrait.
+    if (!imported.profile.photo) imported.profile.photo = await readAsDataURL(file);
+    return imported;
+};
@@ -0,0 +1,78 @@
+import type { BotThreads, ChatMessage, ChatSession, ChatThread } from '../types';
+
+/**
+ * 🧵 CHAT THREADS
+ * A bot can have several independent conversations. Per-chat keys (history, summary,
+ * branches, group) are stored under the thread id; memories stay per bot. A bot's
+ * first thread reuses the bot id, so a chat saved before threads existed is simply
+ * its default thread and no data has to move.
+ */
+
+export const DEFAULT_THREAD_NAME = 'Main chat';
+
+export interface ThreadStats {
+    messageCount: number;
+    minutes: number;
+    lastActive: number; // 0 when the thread has no messages
+}
+
+export const createDefaultThreads = (botId: string, createdAt = Date.now()): BotThreads => ({
+    activeThreadId: botId,
+    threads: [{ id: botId, botId, name: DEFAULT_THREAD_NAME, createdAt }],
+});
+
+// Bots that never had threads saved get their default one.
+export const getBotThreads = (chatThreads: Record<string, BotThreads>, botId: string): BotThreads =>
+    chatThreads[botId] || createDefaultThreads(botId, 0);
+
+export const getActiveThreadId = (chatThreads: Record<string, BotThreads>, botId: string) =>
+    getBotThreads(chatThreads, botId).activeThreadId;
+
+export const getThreadIds = (chatThreads: Record<string, BotThreads>, botId: string) =>
+    getBotThreads(chatThreads, botId).threads.map(t => t.id);
+
+export const addThread = (botThreads: BotThreads, botId: string, name: string): { botThreads: BotThreads; thread: ChatThread } => {
+    const now = Date.now();
+    const thread: ChatThread = { id: `thread-${now}`, botId, name: name.trim() || `Chat ${botThreads.threads.length + 1}`, createdAt: now };
+    return { botThreads: { activeThreadId: thread.id, threads: [...botThreads.threads, thread] }, thread };
+};
+
+export const renameThread = (botThreads: BotThreads, threadId: string, name: string): BotThreads => {
+    if (!name.trim()) return botThreads;
+    return { ...botThreads, threads: botThreads.threads.map(t => t.id === threadId ? { ...t, name: name.trim() } : t) };
+};
+
+// Opening an archived thread brings it back.
+export const selectThread = (botThreads: BotThreads, threadId: string): BotThreads => ({
+    activeThreadId: threadId,
+    threads: botThreads.threads.map(t => t.id === threadId && t.archived ? { ...t, archived: false } : t),
+});
+
+/**
+ * Archives or restores a thread. Archiving the open thread switches to the most recently
+ * active one left; the last open thread can't be archived.
+ */
+export const setThreadArchived = (botThreads: BotThreads, threadId: string, archived: boolean, stats: Record<string, ThreadStats> = {}): BotThreads => {
+    const threads = botThreads.threads.map(t => t.id === threadId ? { ...t, archived } : t);
+    const open = threads.filter(t => !t.archived);
+    if (open.length === 0) return botThreads;
+    if (!archived || botThreads.activeThreadId !== threadId) return { ...botThreads, threads };
+    const next = [...open].sort((a, b) => (stats[b.id]?.lastActive || b.createdAt) - (stats[a.id]?.lastActive || a.createdAt))[0];
+    return { activeThreadId: next.id, threads };
+};
+
+export const getThreadStats = (botThreads: BotThreads, chatHistories: Record<string, ChatMessage[]>, sessions: ChatSession[]): Record<string, ThreadStats> => {
+    const stats: Record<string, ThreadStats> = {};
+    botThreads.threads.forEach(thread => {
+        const history = chatHistories[thread.id] || [];
+        const ms = sessions
+            .filter(s => (s.threadId || s.botId) === thread.id)
+            .reduce((sum, s) => sum + (s.endTime - s.startTime), 0);
+        stats[thread.id] = {
+            messageCount: history.length,
+            minutes: Math.round(ms / 60000),
+            lastActive: history.length > 0 ? history[history.length - 1].timestamp : 0,
+        };
+    });
+    return stats;
+};
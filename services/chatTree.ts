@@ -0,0 +1,175 @@
+import type { ChatMessage, ChatTree, ChatTreeNode } from '../types';
+
+/**
+ * 🌳 CONVERSATION TREE
+ * Keeps every alternate reply and forked branch of a chat. The rest of the app keeps
+ * working on the flat history; `syncTree` folds each new flat history into the tree,
+ * and `selectBranch` / `pruneBranch` produce a tree whose active path becomes the new history.
+ */
+
+export const EMPTY_TREE: ChatTree = { nodes: {}, rootIds: [], activeRootId: null };
+
+// Copy-on-write view of a tree, so updates never mutate the stored object.
+const draft = (tree: ChatTree) => {
+    const nodes: Record<string, ChatTreeNode> = { ...tree.nodes };
+    let rootIds = tree.rootIds;
+    let activeRootId = tree.activeRootId;
+    const copied = new Set<string>();
+
+    const edit = (id: string): ChatTreeNode => {
+        if (!copied.has(id)) {
+            nodes[id] = { ...nodes[id], childIds: [...nodes[id].childIds] };
+            copied.add(id);
+        }
+        return nodes[id];
+    };
+    const children = (parentId: string | null) => parentId === null ? rootIds : nodes[parentId]?.childIds || [];
+    const setChildren = (parentId: string | null, ids: string[]) => {
+        if (parentId === null) rootIds = ids;
+        else if (nodes[parentId]) edit(parentId).childIds = ids;
+    };
+    const setActive = (parentId: string | null, id: string | null) => {
+        if (parentId === null) activeRootId = id;
+        else if (nodes[parentId]) edit(parentId).activeChildId = id;
+    };
+    const detach = (id: string) => {
+        const parentId = nodes[id].parentId;
+        setChildren(parentId, children(parentId).filter(c => c !== id));
+        const active = parentId === null ? activeRootId : nodes[parentId]?.activeChildId;
+        if (active === id) setActive(parentId, children(parentId)[0] || null);
+    };
+    const attach = (id: string, parentId: string | null) => {
+        edit(id).parentId = parentId;
+        if (!children(parentId).includes(id)) setChildren(parentId, [...children(parentId), id]);
+    };
+    // Removes a node and its descendants, except those listed in `keep` (they get re-attached elsewhere).
+    const remove = (id: string, keep: Set<string> = new Set()) => {
+        if (!nodes[id]) return;
+        detach(id);
+        const stack = [id];
+        while (stack.length) {
+            const current = stack.pop()!;
+            nodes[current].childIds.forEach(c => { if (!keep.has(c)) stack.push(c); });
+            delete nodes[current];
+        }
+    };
+
+    return {
+        nodes, edit, children, setActive, detach, attach, remove,
+        build: (): ChatTree => ({ nodes, rootIds, activeRootId })
+    };
+};
+
+export const getActivePathIds = (tree: ChatTree): string[] => {
+    const ids: string[] = [];
+    let current = tree.activeRootId;
+    while (current && tree.nodes[current]) {
+        ids.push(current);
+        current = tree.nodes[current].activeChildId;
+    }
+    return ids;
+};
+
+export const getActivePath = (tree: ChatTree): ChatMessage[] =>
+    getActivePathIds(tree).map(id => tree.nodes[id].message);
+
+export const isTreeInSync = (tree: ChatTree, history: ChatMessage[]): boolean => {
+    const path = getActivePathIds(tree);
+    return path.length === history.length && history.every((m, i) => path[i] === m.id && tree.nodes[m.id].message.text === m.text);
+};
+
+// Alternates of a message: itself and its siblings, in creation order.
+export const getSiblings = (tree: ChatTree, messageId: string): string[] => {
+    const node = tree.nodes[messageId];
+    if (!node) return [];
+    return node.parentId === null ? tree.rootIds : tree.nodes[node.parentId]?.childIds || [];
+};
+
+export interface BranchPosition { index: number; count: number }
+
+// Position among alternates for every message that has any, in one pass over the tree.
+export const getBranchPositions = (tree: ChatTree): Map<string, BranchPosition> => {
+    const positions = new Map<string, BranchPosition>();
+    const add = (ids: string[]) => {
+        if (ids.length > 1) ids.forEach((id, index) => positions.set(id, { index, count: ids.length }));
+    };
+    add(tree.rootIds);
+    Object.values(tree.nodes).forEach(node => add(node.childIds));
+    return positions;
+};
+
+/**
+ * Makes `history` the tree's active path. A history that swaps in a brand-new message
+ * after a shared prefix is a fork: the old continuation stays as an inactive branch.
+ * Otherwise, messages that dropped out of the active path were deleted and leave the tree.
+ */
+export const syncTree = (tree: ChatTree, history: ChatMessage[]): ChatTree => {
+    if (history.length === 0) return EMPTY_TREE;
+
+    const t = draft(tree);
+    const oldPath = getActivePathIds(tree);
+    const historyIds = new Set(history.map(m => m.id));
+
+    let shared = 0;
+    while (shared < history.length && shared < oldPath.length && history[shared].id === oldPath[shared]) shared++;
+    const isFork = shared < history.length && !tree.nodes[history[shared].id];
+
+    if (!isFork) {
+        oldPath.slice(shared).filter(id => !historyIds.has(id)).forEach(id => t.remove(id, historyIds));
+    }
+
+    history.forEach((message, i) => {
+        const parentId = i === 0 ? null : history[i - 1].id;
+        const existing = t.nodes[message.id];
+        if (!existing) {
+            t.nodes[message.id] = { message, parentId, childIds: [], activeChildId: null };
+            t.attach(message.id, parentId);
+        } else {
+            if (existing.parentId !== parentId) {
+                t.detach(message.id);
+                t.attach(message.id, parentId);
+            }
+            if (existing.message.text !== message.text) t.edit(message.id).message = message;
+        }
+        t.setActive(parentId, message.id);
+    });
+    t.setActive(history[history.length - 1].id, null);
+
+    return t.build();
+};
+
+// Switches to the branch containing `nodeId`, continuing down each node's last active child.
+export const selectBranch = (tree: ChatTree, nodeId: string): ChatTree => {
+    if (!tree.nodes[nodeId]) return tree;
+    const t = draft(tree);
+    let current: string = nodeId;
+    while (true) {
+        const parentId = t.nodes[current].parentId;
+        t.setActive(parentId, current);
+        if (parentId === null) break;
+        current = parentId;
+    }
+    let leaf = nodeId;
+    while (true) {
+        const node = t.nodes[leaf];
+        if (!node.activeChildId && node.childIds.length > 0) t.setActive(leaf, node.childIds[node.childIds.length - 1]);
+        const next = t.nodes[leaf].activeChildId;
+        if (!next || !t.nodes[next]) break;
+        leaf = next;
+    }
+    return t.build();
+};
+
+// Deletes a message with everything that branches off it; the active path moves to a neighbouring sibling.
+export const pruneBranch = (tree: ChatTree, nodeId: string): ChatTree => {
+    const node = tree.nodes[nodeId];
+    if (!node) return tree;
+    const siblings = getSiblings(tree, nodeId);
+    const index = siblings.indexOf(nodeId);
+    const neighbour = siblings[index + 1] || siblings[index - 1] || null;
+
+    const t = draft(tree);
+    t.remove(nodeId);
+    const pruned = t.build();
+    return neighbour ? selectBranch(pruned, neighbour) : pruned;
+};
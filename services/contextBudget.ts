@@ -0,0 +1,72 @@
+import type { ChatMessage, ChatSummary } from '../types';
+import type { ModelDefinition } from './modelRegistry';
+
+/**
+ * 📏 CONTEXT BUDGETER
+ * Decides how much history is sent verbatim. Turns that no longer fit are handed
+ * back as `toFold` so the caller can merge them into the bot's rolling summary.
+ */
+
+// Even on million-token models we keep requests small so replies stay fast and cheap.
+const HISTORY_TOKEN_CAP = 6000;
+// Share of the model's window that history may use; the rest is prompt and reply.
+const HISTORY_SHARE = 0.5;
+// After folding, history drops to this fraction of the budget so the summary is not rewritten every turn.
+const LOW_WATERMARK = 0.6;
+// Never fold the last few turns, however long they are.
+const MIN_RECENT_MESSAGES = 6;
+
+export interface ContextPlan {
+    recent: ChatMessage[];
+    toFold: ChatMessage[];
+    summary: ChatSummary | null; // the stored summary, if it still matches this history
+}
+
+// Rough estimate (~4 chars per token plus per-message overhead); good enough for budgeting.
+export const estimateTokens = (text: string): number => Math.ceil((text || '').length / 4) + 4;
+
+const countTokens = (messages: ChatMessage[]) => messages.reduce((sum, m) => sum + estimateTokens(m.text), 0);
+
+export const getHistoryBudget = (model: ModelDefinition, promptTokens: number): number =>
+    Math.max(500, Math.min(HISTORY_TOKEN_CAP, Math.floor(model.contextWindow * HISTORY_SHARE) - promptTokens));
+
+export const planContext = (history: ChatMessage[], summary: ChatSummary | null, budget: number): ContextPlan => {
+    // Only turns after the summarised point are candidates for the verbatim window.
+    // A summary whose anchor message is not on this path (another branch, new chat) no longer
+    // applies. Deleting the anchor moves it to the message before, so that case never gets here.
+    let start = 0;
+    let validSummary: ChatSummary | null = null;
+    if (summary) {
+        const anchor = history.findIndex(m => m.id === summary.coveredUntilId);
+        if (anchor !== -1) {
+            start = anchor + 1;
+            validSummary = summary;
+        }
+    }
+
+    const window = history.slice(start);
+    if (countTokens(window) <= budget) return { recent: window, toFold: [], summary: validSummary };
+
+    let cut = window.length;
+    let kept = 0;
+    while (cut > 0) {
+        const tokens = estimateTokens(window[cut - 1].text);
+        if (window.length - cut >= MIN_RECENT_MESSAGES && kept + tokens > budget * LOW_WATERMARK) break;
+        kept += tokens;
+        cut--;
+    }
+
+    return { recent: window.slice(cut), toFold: window.slice(0, cut), summary: validSummary };
+};
+
+// When folding fails, the newest turns of `toFold` that still fit the full budget go out verbatim.
+// The summary doesn't advance, so the rest is folded on a later turn.
+export const withUnfoldedTurns = (plan: ContextPlan, budget: number): ChatMessage[] => {
+    let kept = countTokens(plan.recent);
+    let cut = plan.toFold.length;
+    while (cut > 0 && kept + estimateTokens(plan.toFold[cut - 1].text) <= budget) {
+        kept += estimateTokens(plan.toFold[cut - 1].text);
+        cut--;
+    }
+    return [...plan.toFold.slice(cut), ...plan.recent];
+};
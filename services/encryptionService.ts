@@ -0,0 +1,136 @@
+/**
+ * 🔐 VAULT LOCK
+ * Optional passphrase encryption at rest. The passphrase is stretched with PBKDF2
+ * into an AES-GCM key that only ever lives in memory; stored values in the locked
+ * scope (API keys, optionally chats) are replaced by ciphertext envelopes. There is
+ * no recovery: a forgotten passphrase means the encrypted data has to be wiped.
+ */
+
+// This service uses localForage to persist data via IndexedDB.
+declare const localforage: any;
+
+const SETTINGS_KEY = 'zia_encryption';
+const PBKDF2_ITERATIONS = 310000;
+// Encrypted with the derived key so a wrong passphrase is caught before any data is touched.
+const CHECK_PLAINTEXT = 'zia-vault-check';
+
+// Always encrypted once the lock is on: API keys and the custom endpoints (which can hold a key).
+export const SECRET_KEYS = ['apiKeys', 'customEndpoint', 'ttsEngine'];
+// Encrypted too when the user opts in: chats and everything derived from them.
+export const CHAT_KEYS = ['chatHistories', 'chatTrees', 'chatSummaries', 'botMemories'];
+
+export interface EncryptedValue {
+    __encrypted: 'AES-GCM';
+    iv: string;
+    data: string;
+}
+
+export interface EncryptionSettings {
+    version: number;
+    salt: string;
+    iterations: number;
+    check: EncryptedValue;
+    encryptChats: boolean;
+    autoLockMinutes: number; // 0 = never
+}
+
+let settings: EncryptionSettings | null = null;
+let cryptoKey: CryptoKey | null = null;
+
+const toBase64 = (bytes: Uint8Array): string => {
+    let binary = '';
+    const CHUNK = 0x8000;
+    for (let i = 0; i < bytes.length; i += CHUNK) binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK));
+    return btoa(binary);
+};
+
+const fromBase64 = (text: string): Uint8Array => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+    );
+};
+
+const encryptWith = async (key: CryptoKey, value: unknown): Promise<EncryptedValue> => {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const cipher = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify(value)));
+    return { __encrypted: 'AES-GCM', iv: toBase64(iv), data: toBase64(new Uint8Array(cipher)) };
+};
+
+const decryptWith = async (key: CryptoKey, envelope: EncryptedValue): Promise<any> => {
+    const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(envelope.iv) }, key, fromBase64(envelope.data));
+    return JSON.parse(new TextDecoder().decode(plain));
+};
+
+export const isEncryptedValue = (value: unknown): value is EncryptedValue =>
+    !!value && typeof value === 'object' && (value as EncryptedValue).__encrypted === 'AES-GCM';
+
+export const loadEncryptionSettings = async (): Promise<EncryptionSettings | null> => {
+    const next: EncryptionSettings | null = (await localforage.getItem(SETTINGS_KEY)) || null;
+    // A new salt means the lock was set up again (e.g. in another tab); the key we hold no longer fits.
+    if (!next || next.salt !== settings?.salt) cryptoKey = null;
+    settings = next;
+    return settings;
+};
+
+export const getEncryptionSettings = () => settings;
+export const isVaultLocked = () => !!settings && !cryptoKey;
+
+// Storage keys whose values are kept encrypted under the current settings.
+export const getEncryptedKeys = (): string[] => !settings ? [] : settings.encryptChats ? [...SECRET_KEYS, ...CHAT_KEYS] : SECRET_KEYS;
+
+export const encryptValue = (value: unknown): Promise<EncryptedValue> => {
+    if (!cryptoKey) throw new Error('Vault is locked.');
+    return encryptWith(cryptoKey, value);
+};
+
+export const decryptValue = (envelope: EncryptedValue): Promise<any> => {
+    if (!cryptoKey) throw new Error('Vault is locked.');
+    return decryptWith(cryptoKey, envelope);
+};
+
+export const createEncryptionSettings = async (passphrase: string, options: { encryptChats: boolean; autoLockMinutes: number }): Promise<void> => {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+    const next: EncryptionSettings = {
+        version: 1,
+        salt: toBase64(salt),
+        iterations: PBKDF2_ITERATIONS,
+        check: await encryptWith(key, CHECK_PLAINTEXT),
+        ...options
+    };
+    await localforage.setItem(SETTINGS_KEY, next);
+    settings = next;
+    cryptoKey = key;
+};
+
+export const updateEncryptionSettings = async (changes: Partial<Pick<EncryptionSettings, 'encryptChats' | 'autoLockMinutes'>>): Promise<void> => {
+    if (!settings) return;
+    settings = { ...settings, ...changes };
+    await localforage.setItem(SETTINGS_KEY, settings);
+};
+
+export const unlockWithPassphrase = async (passphrase: string): Promise<void> => {
+    if (!settings) return;
+    const key = await deriveKey(passphrase, fromBase64(settings.salt), settings.iterations);
+    try {
+        if ((await decryptWith(key, settings.check)) !== CHECK_PLAINTEXT) throw new Error();
+    } catch {
+        throw new Error('Wrong passphrase.');
+    }
+    cryptoKey = key;
+};
+
+export const forgetKey = () => { cryptoKey = null; };
+
+export const removeEncryptionSettings = async (): Promise<void> => {
+    await localforage.removeItem(SETTINGS_KEY);
+    settings = null;
+    cryptoKey = null;
+};
@@ -1,61 +1,272 @@
 
-import { ChatMessage, AIModelOption, BotProfile } from "../types";
-import { xyz } from "./xyz";
+import { ChatMessage, AIModelOption, AIProvider, BotProfile, ApiKeyEntry, CustomEndpointConfig, ChatSummary, LoreEntry } from "../types";
+import { xyz, type PromptContext } from "./xyz";
 import { processLocalResponse } from "./localBrain";
+import { getModel } from "./modelRegistry";
+import { estimateTokens, getHistoryBudget, planContext, withUnfoldedTurns } from "./contextBudget";
+import { matchLore, type LoreMatch } from "./lorebook";
 
 /**
  * 🛡️ CLIENT-SIDE SERVICE (FAST-PATH & CRASH-RESILIENT)
  */
 
+interface GatewayConfig {
+    apiKeys: ApiKeyEntry[];
+    onKeyExhausted?: (keyId: string) => void;
+    customEndpoint: CustomEndpointConfig | null;
+}
+
+let gatewayConfig: GatewayConfig = { apiKeys: [], customEndpoint: null };
+
+// Keys that hit their quota this session; skipped even before the vault state catches up.
+let exhaustedKeyIds = new Set<string>();
+
+export const configureGateway = (config: Partial<GatewayConfig>) => {
+    gatewayConfig = { ...gatewayConfig, ...config };
+};
+
 export const resetApiState = () => {
-    // No-op for now as proxy-driven state is purged per-request
+    exhaustedKeyIds = new Set();
     console.debug("Zia.ai: Gateway state refreshed.");
 };
 
-const callServerProxy = async (
-    provider: 'gemini' | 'groq',
+const getVaultKeys = (provider: AIProvider): ApiKeyEntry[] =>
+    gatewayConfig.apiKeys.filter(k =>
+        k.isActive && !k.isExhausted && !exhaustedKeyIds.has(k.id) && (k.provider || 'gemini') === provider
+    );
+
+const isQuotaError = (status: number, message: string) =>
+    status === 429 || /quota|rate.?limit|resource.?exhausted|429/i.test(message);
+
+export interface GenerateOptions {
+    // Receives the accumulated reply text each time a new chunk arrives.
+    onChunk?: (partialText: string) => void;
+    // The conversation's rolling summary; called back when older turns were folded into it.
+    summary?: ChatSummary | null;
+    onSummaryUpdate?: (summary: ChatSummary) => void;
+    // Long-term facts about the user, already filtered to the ones relevant to this turn.
+    memories?: string[];
+    // Group chats: who is present and which of them is replying.
+    group?: GroupContext;
+    // Lorebook entries that apply to this chat; the ones whose keywords appear in recent turns are sent.
+    lore?: LoreOptions;
+}
+
+export interface LoreOptions {
+    entries: LoreEntry[];
+    tokenBudget: number;
+    onMatch?: (match: LoreMatch) => void;
+}
+
+export interface GroupMember {
+    id: string;
+    name: string;
+    description: string;
+}
+
+export interface GroupContext {
+    hostId: string; // the bot the chat belongs to; its messages carry no speakerId
+    speakerId: string;
+    members: GroupMember[];
+}
+
+const speakerName = (group: Omit<GroupContext, 'speakerId'>, message: ChatMessage) =>
+    message.sender === 'user' ? 'User' : group.members.find(m => m.id === (message.speakerId || group.hostId))?.name || 'Someone';
+
+// The chat as the replying bot sees it: its own lines stay its own, the other bots' lines arrive as named user turns.
+const toSpeakerView = (history: ChatMessage[], group: GroupContext): ChatMessage[] =>
+    history.map(m => m.sender === 'bot' && (m.speakerId || group.hostId) !== group.speakerId
+        ? { ...m, sender: 'user', text: `${speakerName(group, m)}: ${m.text}` }
+        : m);
+
+// Reads the proxy's NDJSON stream, reporting the growing reply through onChunk.
+// `error` is set when the stream broke off; `text` is then whatever arrived before.
+const readProxyStream = async (
+    response: Response,
+    onChunk: (partialText: string) => void
+): Promise<{ text: string; error?: string }> => {
+    if (!response.body) return { text: '', error: 'Empty stream.' };
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let text = '';
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+            if (!line.trim()) continue;
+            let event: { delta?: string; error?: string };
+            try { event = JSON.parse(line); } catch { continue; } // a garbled line shouldn't cost the reply
+            if (event.error) {
+                reader.cancel().catch(() => {});
+                return { text, error: event.error };
+            }
+            if (event.delta) {
+                text += event.delta;
+                onChunk(text);
+            }
+        }
+    }
+
+    return { text };
+};
+
+type ProxyProvider = Exclude<AIProvider, 'local'>;
+
+const sendToProxy = async (
+    provider: ProxyProvider,
     modelId: string,
     history: ChatMessage[],
-    bot: any
-): Promise<string> => {
-    // FAST-PATH: Minimal pre-processing
-    const systemInstruction = xyz(history, history[history.length - 1]?.text || "", bot.personality, bot.conversationMode, bot.gender);
-
+    systemInstruction: string,
+    apiKey?: string,
+    onChunk?: (partialText: string) => void
+): Promise<{ text: string; quotaExceeded: boolean }> => {
     const response = await fetch('/api/ai', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ provider, modelId, history, systemInstruction })
+        body: JSON.stringify({
+            provider, modelId, history, systemInstruction, stream: !!onChunk, apiKey,
+            endpoint: provider === 'custom' ? gatewayConfig.customEndpoint : undefined
+        })
     });
 
     const contentType = response.headers.get('content-type') || '';
+    if (onChunk && response.ok && contentType.includes('application/x-ndjson')) {
+        const { text, error } = await readProxyStream(response, onChunk);
+        // A reply that broke off mid-stream is a failed request, not a shorter reply.
+        if (error) return { text: `(System: [${provider.toUpperCase()}] ${error})`, quotaExceeded: isQuotaError(response.status, error) };
+        return { text: text || "(Silence...)", quotaExceeded: false };
+    }
     if (!contentType.includes('application/json')) {
         const rawText = await response.text();
-        return `(System: [Proxy Error] Invalid response format. ${rawText.slice(0, 50)}...)`;
+        return { text: `(System: [Proxy Error] Invalid response format. ${rawText.slice(0, 50)}...)`, quotaExceeded: response.status === 429 };
     }
 
     const result = await response.json();
     if (!response.ok) {
-        return `(System: [${provider.toUpperCase()}] ${result.error || "Request failed."})`;
+        const error = result.error || "Request failed.";
+        return { text: `(System: [${provider.toUpperCase()}] ${error})`, quotaExceeded: isQuotaError(response.status, error) };
     }
 
-    return result.text;
+    return { text: result.text, quotaExceeded: false };
+};
+
+// Sends one completion request, rotating through the provider's vault keys on quota errors.
+const requestCompletion = async (
+    provider: ProxyProvider,
+    modelId: string,
+    history: ChatMessage[],
+    systemInstruction: string,
+    onChunk?: (partialText: string) => void
+): Promise<string> => {
+    if (provider === 'custom' && !(gatewayConfig.customEndpoint?.baseUrl && gatewayConfig.customEndpoint.model)) {
+        return `(System: [CUSTOM] Set the endpoint URL and model name in Settings first.)`;
+    }
+
+    // Vault keys for this provider are tried in order; the server's own key is used only when none are usable.
+    let quotaNotice = '';
+    for (const entry of getVaultKeys(provider)) {
+        const { text, quotaExceeded } = await sendToProxy(provider, modelId, history, systemInstruction, entry.key, onChunk);
+        if (!quotaExceeded) return text;
+
+        exhaustedKeyIds.add(entry.id);
+        gatewayConfig.onKeyExhausted?.(entry.id);
+        console.warn(`Zia.ai: Vault key "${entry.name}" exhausted, rotating.`);
+        quotaNotice = text;
+        // The next attempt streams from the start; don't leave the failed one on screen.
+        onChunk?.('');
+    }
+    const { text } = await sendToProxy(provider, modelId, history, systemInstruction, undefined, onChunk);
+    // With no server key either, the vault's quota error says more than "key missing".
+    return quotaNotice && text.startsWith("(System:") ? quotaNotice : text;
+};
+
+const callServerProxy = async (
+    provider: ProxyProvider,
+    modelId: string,
+    history: ChatMessage[],
+    bot: any,
+    onChunk?: (partialText: string) => void,
+    context: PromptContext = {},
+    lore?: LoreOptions
+): Promise<string> => {
+    // FAST-PATH: Minimal pre-processing
+    if (lore && lore.entries.length > 0) {
+        const match = matchLore(lore.entries, history, lore.tokenBudget);
+        lore.onMatch?.(match);
+        context = { ...context, lore: match.fired.map(({ entry }) => ({ name: entry.name, content: entry.content, position: entry.position })) };
+    }
+    const systemInstruction = xyz(history, history[history.length - 1]?.text || "", bot.personality, bot.conversationMode, bot.gender, context);
+    return requestCompletion(provider, modelId, history, systemInstruction, onChunk);
+};
+
+const SUMMARY_INSTRUCTION = `You maintain the running summary of a role-play chat. Merge the new turns into the existing summary.
+Keep names, facts about the user, promises, relationship changes and unresolved threads. Drop small talk.
+Write in third person, past tense, at most 200 words. Reply with the summary text only.`;
+
+// Merges turns that left the context window into the existing summary. Returns null when the model call fails.
+const foldIntoSummary = async (
+    provider: ProxyProvider,
+    modelId: string,
+    previousSummary: string,
+    turns: ChatMessage[],
+    nameOf: (message: ChatMessage) => string
+): Promise<string | null> => {
+    const transcript = turns.map(m => `${nameOf(m)}: ${m.text}`).join('\n');
+    const request = `${previousSummary ? `Existing summary:\n${previousSummary}\n\n` : ''}New turns:\n${transcript}`;
+    const result = await requestCompletion(provider, modelId,
+        [{ sender: 'user', id: 'summary-request', timestamp: Date.now(), text: request }],
+        SUMMARY_INSTRUCTION
+    );
+    return result.startsWith("(System:") ? null : result.trim();
 };
 
 export const generateBotResponse = async (
     history: ChatMessage[],
-    bot: Pick<BotProfile, 'name' | 'personality' | 'isSpicy' | 'conversationMode' | 'gender'>,
+    bot: Pick<BotProfile, 'name' | 'personality' | 'conversationMode' | 'gender'>,
     modelId: AIModelOption = 'gemini-3-flash-preview',
     onSuccess?: () => void,
-    onQuotaExceeded?: () => void
+    onQuotaExceeded?: () => void,
+    options: GenerateOptions = {}
 ): Promise<string> => {
     
-    if (modelId === 'local-offline') return processLocalResponse(history, bot);
+    const model = getModel(modelId);
+    if (!model) return `(System: Unknown model "${modelId}". Pick another in Settings.)`;
+    if (model.adapter === 'local') return processLocalResponse(history, bot);
 
-    const providerId: 'gemini' | 'groq' = 
-        (modelId.startsWith('llama-') || modelId.startsWith('mixtral-')) ? 'groq' : 'gemini';
+    const providerId = model.provider as ProxyProvider;
 
     try {
-        const result = await callServerProxy(providerId, modelId, history, bot);
+        // Long chats: send recent turns verbatim and fold the overflow into the rolling summary.
+        const memories = options.memories || [];
+        const loreTokens = options.lore?.entries.length ? options.lore.tokenBudget : 0;
+        const promptTokens = estimateTokens(bot.personality) + memories.reduce((sum, m) => sum + estimateTokens(m), 0) + loreTokens;
+        const budget = getHistoryBudget(model, promptTokens);
+        const plan = planContext(history, options.summary ?? null, budget);
+        let summaryText = plan.summary?.text || '';
+        let turns = plan.recent;
+        if (plan.toFold.length > 0) {
+            const nameOf = (m: ChatMessage) => options.group ? speakerName(options.group, m) : m.sender === 'user' ? 'User' : bot.name;
+            const folded = await foldIntoSummary(providerId, modelId, summaryText, plan.toFold, nameOf);
+            if (folded) {
+                summaryText = folded;
+                options.onSummaryUpdate?.({ text: folded, coveredUntilId: plan.toFold[plan.toFold.length - 1].id, updatedAt: Date.now() });
+            } else {
+                turns = withUnfoldedTurns(plan, budget);
+            }
+        }
+
+        const { group } = options;
+        const recent = group ? toSpeakerView(turns, group) : turns;
+        const groupScene = group && {
+            speakerName: bot.name,
+            others: group.members.filter(m => m.id !== group.speakerId).map(({ name, description }) => ({ name, description }))
+        };
+        const result = await callServerProxy(providerId, modelId, recent, bot, options.onChunk, { summary: summaryText, memories, group: groupScene || undefined }, options.lore);
         
         // SUCCESS PATH
         if (!result.startsWith("(System:")) {
@@ -75,6 +286,30 @@ export const generateBotResponse = async (
     }
 };
 
+const NEXT_SPEAKER_INSTRUCTION = `You direct a group role-play chat. Given the characters and the latest turns, decide which character would naturally speak next.
+Reply with that character's name only.`;
+
+// Group chats: lets the model pick who answers next. Returns the member id, or null when it can't tell.
+export const chooseNextSpeaker = async (
+    history: ChatMessage[],
+    group: Omit<GroupContext, 'speakerId'>,
+    modelId: AIModelOption
+): Promise<string | null> => {
+    const model = getModel(modelId);
+    if (!model || model.adapter === 'local') return null;
+    try {
+        const transcript = history.slice(-8).map(m => `${speakerName(group, m)}: ${m.text}`).join('\n');
+        const request = `Characters: ${group.members.map(m => m.name).join(', ')}\n\nLatest turns:\n${transcript}\n\nWho speaks next?`;
+        const result = await requestCompletion(model.provider as ProxyProvider, modelId,
+            [{ sender: 'user', id: 'speaker-request', timestamp: Date.now(), text: request }],
+            NEXT_SPEAKER_INSTRUCTION
+        );
+        if (result.startsWith("(System:")) return null;
+        const answer = result.trim().toLowerCase();
+        return group.members.find(m => answer.includes(m.name.toLowerCase()))?.id || null;
+    } catch { return null; }
+};
+
 export const generateUserSuggestion = async (
     history: ChatMessage[],
     bot: Pick<BotProfile, 'name' | 'personality' | 'conversationMode' | 'gender'>,
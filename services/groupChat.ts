@@ -0,0 +1,80 @@
+import type { AIModelOption, BotProfile, ChatMessage, GroupChat, TurnPolicy } from '../types';
+import { chooseNextSpeaker, type GroupContext } from './geminiService';
+
+/**
+ * 👥 GROUP CHAT
+ * Several bots in one conversation. The chat is a thread of its host bot, so summaries,
+ * memories and branches work as in any chat; bot messages record who said them in
+ * `speakerId`. A turn policy decides which participant answers next.
+ */
+
+export const TURN_POLICIES: { id: TurnPolicy; label: string; hint: string }[] = [
+    { id: 'round-robin', label: 'Take turns', hint: 'Everyone answers in order.' },
+    { id: 'addressed', label: 'Whoever is named', hint: 'The bot you mention answers; otherwise the next in order.' },
+    { id: 'model', label: 'Let the AI decide', hint: 'The model picks who would naturally speak next.' },
+];
+
+export const speakerIdOf = (message: ChatMessage, hostId: string) => message.speakerId || hostId;
+
+// Host first, then the other participants in speaking order. Bots deleted since are skipped.
+export const getParticipants = <T extends BotProfile>(host: T, group: GroupChat | null | undefined, bots: T[]): T[] => [
+    host,
+    ...(group?.participantIds || [])
+        .filter(id => id !== host.id)
+        .map(id => bots.find(b => b.id === id))
+        .filter((b): b is T => !!b),
+];
+
+export const toGroupContext = (hostId: string, participants: BotProfile[]): Omit<GroupContext, 'speakerId'> => ({
+    hostId,
+    members: participants.map(({ id, name, description }) => ({ id, name, description })),
+});
+
+const isSystemMessage = (m: ChatMessage) => m.text?.includes("(System:");
+
+// The participant after whoever spoke last.
+const nextInTurn = (participants: BotProfile[], history: ChatMessage[], hostId: string): BotProfile => {
+    const last = [...history].reverse().find(m => m.sender === 'bot' && !isSystemMessage(m));
+    if (!last) return participants[0];
+    const index = participants.findIndex(p => p.id === speakerIdOf(last, hostId));
+    return participants[(index + 1) % participants.length];
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// The participant whose name (or first name) appears earliest in `text`.
+export const findAddressed = (participants: BotProfile[], text: string): BotProfile | null => {
+    let found: BotProfile | null = null;
+    let foundAt = Infinity;
+    participants.forEach(p => {
+        const names = [p.name.trim(), p.name.trim().split(/\s+/)[0]].filter(Boolean);
+        names.forEach(name => {
+            const match = new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(name)}(?=$|[^\\p{L}\\p{N}])`, 'iu').exec(text);
+            if (match && match.index < foundAt) { found = p; foundAt = match.index; }
+        });
+    });
+    return found;
+};
+
+/** Picks who answers next. Every policy falls back to taking turns when it has no better answer. */
+export const pickNextSpeaker = async (
+    policy: TurnPolicy,
+    participants: BotProfile[],
+    history: ChatMessage[],
+    modelId: AIModelOption
+): Promise<BotProfile> => {
+    const host = participants[0];
+    if (participants.length < 2) return host;
+    const last = history[history.length - 1];
+
+    if (policy === 'addressed' && last?.sender === 'user') {
+        const addressed = findAddressed(participants, last.text);
+        if (addressed) return addressed;
+    }
+    if (policy === 'model') {
+        const id = await chooseNextSpeaker(history, toGroupContext(host.id, participants), modelId);
+        const chosen = participants.find(p => p.id === id);
+        if (chosen) return chosen;
+    }
+    return nextInTurn(participants, history, host.id);
+};
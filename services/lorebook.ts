@@ -0,0 +1,73 @@
+import type { ChatMessage, Lorebook, LoreEntry } from '../types';
+import { estimateTokens } from './contextBudget';
+
+/**
+ * 📚 LOREBOOK
+ * World info that is too large to live in the personality prompt. Each entry has
+ * trigger keywords; when one shows up in the last few turns, the entry is sent with
+ * the next reply. Entries belong to everyone (global), one bot or one persona.
+ * Higher priority goes first, and whatever no longer fits the token budget is dropped.
+ */
+
+export const DEFAULT_LORE_BUDGET = 600;
+// How many of the latest messages are scanned for keywords.
+const SCAN_DEPTH = 4;
+
+export const EMPTY_LOREBOOK: Lorebook = { entries: [], tokenBudget: DEFAULT_LORE_BUDGET };
+
+export interface LoreActivation {
+    entry: LoreEntry;
+    keyword: string; // the keyword that fired it
+}
+
+export interface LoreMatch {
+    fired: LoreActivation[];
+    dropped: LoreActivation[]; // matched, but over the token budget
+}
+
+// One reply's worth of lore, for showing what fired.
+export interface LoreTurn {
+    at: number;
+    speakerName: string;
+    match: LoreMatch;
+}
+
+// The entries that apply to a chat: global ones, the speaking bot's and the chat persona's.
+export const getLoreEntries = (lorebook: Lorebook, botId: string, personaId?: string | null): LoreEntry[] =>
+    lorebook.entries.filter(entry => entry.enabled && (
+        entry.scope === 'global'
+        || (entry.scope === 'bot' && entry.ownerId === botId)
+        || (entry.scope === 'persona' && !!personaId && entry.ownerId === personaId)
+    ));
+
+// Case and accents don't matter; a keyword only matches whole words ("cat" misses "category").
+const normalize = (text: string) => text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const findKeyword = (entry: LoreEntry, text: string): string | undefined =>
+    entry.keywords.find(keyword => {
+        const needle = normalize(keyword.trim());
+        return !!needle && new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(needle)}(?![\\p{L}\\p{N}])`, 'u').test(text);
+    });
+
+export const matchLore = (entries: LoreEntry[], history: ChatMessage[], tokenBudget: number): LoreMatch => {
+    const text = normalize(history.slice(-SCAN_DEPTH).filter(m => !m.text.includes('(System:')).map(m => m.text).join('\n'));
+    const matched = entries
+        .map(entry => ({ entry, keyword: findKeyword(entry, text) }))
+        .filter((a): a is LoreActivation => !!a.keyword)
+        .sort((a, b) => b.entry.priority - a.entry.priority);
+
+    const result: LoreMatch = { fired: [], dropped: [] };
+    let remaining = tokenBudget;
+    matched.forEach(activation => {
+        const tokens = estimateTokens(activation.entry.content);
+        // A big entry that doesn't fit leaves room for smaller ones below it.
+        if (tokens > remaining) { result.dropped.push(activation); return; }
+        remaining -= tokens;
+        result.fired.push(activation);
+    });
+    return result;
+};
+
+export const parseKeywords = (text: string): string[] =>
+    [...new Set(text.split(',').map(k => k.trim()).filter(Boolean))];
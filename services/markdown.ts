@@ -0,0 +1,139 @@
+/**
+ * 📝 MESSAGE FORMATTING
+ * Parses message text into a small block/inline tree that the bubbles render as React
+ * elements, so model output can never inject HTML. Covers CommonMark basics plus the Zia
+ * convention: single asterisks are actions (`"Hi." *waves*`), so plain italics use
+ * underscores. Unclosed markers stay literal, which keeps half-streamed replies readable.
+ */
+
+export type Inline =
+    | { type: 'text'; text: string }
+    | { type: 'code'; text: string }
+    | { type: 'link'; href: string; children: Inline[] }
+    | { type: 'bold' | 'italic' | 'strike' | 'action'; children: Inline[] };
+
+export type Block =
+    | { type: 'paragraph'; lines: Inline[][] }
+    | { type: 'heading'; level: number; content: Inline[] }
+    | { type: 'code'; lang: string; code: string }
+    | { type: 'quote'; blocks: Block[] }
+    | { type: 'list'; ordered: boolean; start: number; items: Block[][] }
+    | { type: 'rule' };
+
+const INLINE = new RegExp([
+    /`([^`\n]+)`/.source,                                               // 1 code
+    /\[([^\]\n]+)\]\(([^)\s]+)\)/.source,                                // 2, 3 link
+    /(https?:\/\/[^\s<]*[^\s<.,;:!?)\]"'*_])/.source,                   // 4 bare url
+    /\*\*(.+?)\*\*/.source,                                             // 5 bold
+    /__(.+?)__/.source,                                                 // 6 bold
+    /~~(.+?)~~/.source,                                                 // 7 strike
+    /\*([^*\n]+?)\*(?!\*)/.source,                                      // 8 action
+    /(?<![\p{L}\p{N}_])_([^_\n]+?)_(?![\p{L}\p{N}_])/u.source,          // 9 italic
+].join('|'), 'gu');
+
+// Only links that open a page or a mail client; anything else stays text.
+const isSafeHref = (href: string) => /^(https?:\/\/|mailto:)/i.test(href);
+
+const parseInline = (text: string): Inline[] => {
+    const nodes: Inline[] = [];
+    let last = 0;
+    for (const m of text.matchAll(INLINE)) {
+        if (m.index! > last) nodes.push({ type: 'text', text: text.slice(last, m.index) });
+        last = m.index! + m[0].length;
+        if (m[1] !== undefined) nodes.push({ type: 'code', text: m[1] });
+        else if (m[2] !== undefined) nodes.push(isSafeHref(m[3]) ? { type: 'link', href: m[3], children: parseInline(m[2]) } : { type: 'text', text: m[2] });
+        else if (m[4] !== undefined) nodes.push({ type: 'link', href: m[4], children: [{ type: 'text', text: m[4] }] });
+        else if (m[5] !== undefined || m[6] !== undefined) nodes.push({ type: 'bold', children: parseInline(m[5] ?? m[6]) });
+        else if (m[7] !== undefined) nodes.push({ type: 'strike', children: parseInline(m[7]) });
+        else if (m[8] !== undefined) nodes.push({ type: 'action', children: parseInline(m[8]) });
+        else nodes.push({ type: 'italic', children: parseInline(m[9]) });
+    }
+    if (last < text.length) nodes.push({ type: 'text', text: text.slice(last) });
+    return nodes;
+};
+
+const FENCE = /^\s*(`{3,}|~{3,})\s*([\w+#.-]*)\s*$/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const QUOTE = /^\s{0,3}>\s?/;
+// A marker needs a space after it, so "*smiles*" at the start of a line is still an action.
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+
+const indentOf = (line: string) => line.length - line.trimStart().length;
+
+const parseBlocks = (lines: string[]): Block[] => {
+    const blocks: Block[] = [];
+    let paragraph: string[] = [];
+    const flush = () => {
+        if (paragraph.length > 0) blocks.push({ type: 'paragraph', lines: paragraph.map(parseInline) });
+        paragraph = [];
+    };
+
+    let i = 0;
+    while (i < lines.length) {
+        const line = lines[i];
+        const fence = line.match(FENCE);
+        if (fence) {
+            flush();
+            const code: string[] = [];
+            i++;
+            // A fence that never closes (still streaming) runs to the end.
+            while (i < lines.length && !lines[i].trim().startsWith(fence[1])) code.push(lines[i++]);
+            i++;
+            blocks.push({ type: 'code', lang: fence[2], code: code.join('\n') });
+            continue;
+        }
+        if (!line.trim()) { flush(); i++; continue; }
+
+        const heading = line.match(HEADING);
+        if (heading) {
+            flush();
+            blocks.push({ type: 'heading', level: heading[1].length, content: parseInline(heading[2]) });
+            i++;
+            continue;
+        }
+        if (RULE.test(line)) { flush(); blocks.push({ type: 'rule' }); i++; continue; }
+        if (QUOTE.test(line)) {
+            flush();
+            const quoted: string[] = [];
+            while (i < lines.length && QUOTE.test(lines[i])) quoted.push(lines[i++].replace(QUOTE, ''));
+            blocks.push({ type: 'quote', blocks: parseBlocks(quoted) });
+            continue;
+        }
+
+        const first = line.match(LIST_ITEM);
+        if (first) {
+            flush();
+            const indent = first[1].length;
+            const ordered = /\d/.test(first[2]);
+            const items: Block[][] = [];
+            while (i < lines.length) {
+                const item = lines[i].match(LIST_ITEM);
+                if (!item || item[1].length !== indent || /\d/.test(item[2]) !== ordered) {
+                    // A blank line between two items doesn't end the list.
+                    const next = lines[i + 1]?.match(LIST_ITEM);
+                    if (!lines[i].trim() && next && next[1].length === indent && /\d/.test(next[2]) === ordered) { i++; continue; }
+                    break;
+                }
+                const contentIndent = indent + item[2].length + 1;
+                const content = [item[3]];
+                i++;
+                // Deeper-indented lines belong to the item (nested lists, wrapped text).
+                while (i < lines.length && lines[i].trim() && indentOf(lines[i]) > indent) {
+                    content.push(lines[i].slice(Math.min(indentOf(lines[i]), contentIndent)));
+                    i++;
+                }
+                items.push(parseBlocks(content));
+            }
+            blocks.push({ type: 'list', ordered, start: ordered ? parseInt(first[2], 10) : 1, items });
+            continue;
+        }
+
+        paragraph.push(line);
+        i++;
+    }
+    flush();
+    return blocks;
+};
+
+export const parseMarkdown = (text: string): Block[] => parseBlocks(text.replace(/\r\n?/g, '\n').split('\n'));
@@ -0,0 +1,220 @@
+/**
+ * 🖼️ MEDIA STORE
+ * Keeps photos, GIFs and videos as Blobs in their own IndexedDB store, keyed by the
+ * SHA-256 of their content. Stored data only holds `zia-media://<sha256>` references,
+ * so saving a bot rewrites a few bytes instead of every image it owns. In memory the
+ * references are swapped for object URLs, which <img>/<video> can use directly.
+ */
+
+// This service uses localForage to persist data via IndexedDB.
+declare const localforage: any;
+
+export const MEDIA_REF_PREFIX = 'zia-media://';
+// Data URLs shorter than this (icons, tiny placeholders) stay inline.
+export const MIN_STORED_MEDIA_LENGTH = 1024;
+// Blobs younger than this are never collected: a pending save may be about to reference them.
+const GC_GRACE_MS = 10 * 60 * 1000;
+
+interface MediaEntry {
+    blob: Blob;
+    type: string;
+    size: number;
+    createdAt: number;
+}
+
+let mediaDb: any = null;
+const getMediaDb = () => {
+    if (!mediaDb) mediaDb = localforage.createInstance({ name: 'zia_media', storeName: 'blobs' });
+    return mediaDb;
+};
+
+// Caches so that repeated saves of the same media never decode or hash it again.
+const refByDataUrl = new Map<string, string>();
+const objectUrlByRef = new Map<string, string>();
+const refByObjectUrl = new Map<string, string>();
+
+export const isMediaRef = (text: string) => text.startsWith(MEDIA_REF_PREFIX);
+const refToHash = (ref: string) => ref.slice(MEDIA_REF_PREFIX.length);
+const isStorableDataUrl = (text: string) => text.startsWith('data:') && text.length >= MIN_STORED_MEDIA_LENGTH;
+
+const collectStrings = (value: any, test: (text: string) => boolean, found: Set<string>) => {
+    if (typeof value === 'string') {
+        if (test(value)) found.add(value);
+    } else if (Array.isArray(value)) {
+        value.forEach(v => collectStrings(v, test, found));
+    } else if (value && typeof value === 'object' && !(value instanceof Blob)) {
+        Object.keys(value).forEach(k => collectStrings(value[k], test, found));
+    }
+};
+
+// Rebuilds only the branches that contain a replaced string; untouched objects keep their identity.
+const replaceStrings = (value: any, replacements: Map<string, string | null>): any => {
+    if (typeof value === 'string') return replacements.has(value) ? replacements.get(value) : value;
+    if (Array.isArray(value)) {
+        let changed = false;
+        const mapped: any[] = [];
+        value.forEach(v => {
+            const next = replaceStrings(v, replacements);
+            if (next !== v) changed = true;
+            // Array slots whose media could not be resolved are dropped rather than left broken.
+            if (!(next === null && typeof v === 'string')) mapped.push(next);
+        });
+        return changed ? mapped : value;
+    }
+    if (value && typeof value === 'object' && !(value instanceof Blob)) {
+        let copy: any = null;
+        Object.keys(value).forEach(k => {
+            const next = replaceStrings(value[k], replacements);
+            if (next !== value[k]) {
+                if (!copy) copy = { ...value };
+                copy[k] = next;
+            }
+        });
+        return copy || value;
+    }
+    return value;
+};
+
+/**
+ * Applies `transform` to every string in a JSON value that passes `test`. Each distinct
+ * string is transformed once; returning null drops it from arrays (or nulls the field).
+ */
+export const mapStrings = async <T>(value: T, test: (text: string) => boolean, transform: (text: string) => Promise<string | null>): Promise<T> => {
+    const found = new Set<string>();
+    collectStrings(value, test, found);
+    if (found.size === 0) return value;
+    const replacements = new Map<string, string | null>();
+    await Promise.all(Array.from(found).map(async text => replacements.set(text, await transform(text))));
+    return replaceStrings(value, replacements);
+};
+
+export const collectMediaRefs = (value: any, into: Set<string> = new Set()): Set<string> => {
+    collectStrings(value, isMediaRef, into);
+    return into;
+};
+
+const sha256 = async (blob: Blob): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const dataUrlToBlob = (dataUrl: string): Blob => {
+    const comma = dataUrl.indexOf(',');
+    const header = dataUrl.slice(5, comma);
+    const body = dataUrl.slice(comma + 1);
+    const type = header.split(';')[0] || 'application/octet-stream';
+    const bytes = /;base64$/i.test(header)
+        ? Uint8Array.from(atob(body), c => c.charCodeAt(0))
+        : new TextEncoder().encode(decodeURIComponent(body));
+    return new Blob([bytes], { type });
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+});
+
+// Stores a blob under its content hash and returns the reference. Identical media is stored once.
+export const putMedia = async (blob: Blob): Promise<string> => {
+    const hash = await sha256(blob);
+    const db = getMediaDb();
+    if (!(await db.getItem(hash))) {
+        const entry: MediaEntry = { blob, type: blob.type, size: blob.size, createdAt: Date.now() };
+        await db.setItem(hash, entry);
+    }
+    return `${MEDIA_REF_PREFIX}${hash}`;
+};
+
+export const getMediaBlob = async (ref: string): Promise<Blob | null> => {
+    const entry: MediaEntry | null = await getMediaDb().getItem(refToHash(ref));
+    return entry?.blob || null;
+};
+
+const refForDataUrl = async (dataUrl: string): Promise<string> => {
+    const cached = refByDataUrl.get(dataUrl);
+    if (cached) return cached;
+    const ref = await putMedia(dataUrlToBlob(dataUrl));
+    refByDataUrl.set(dataUrl, ref);
+    return ref;
+};
+
+const objectUrlForRef = async (ref: string): Promise<string | null> => {
+    const cached = objectUrlByRef.get(ref);
+    if (cached) return cached;
+    const blob = await getMediaBlob(ref);
+    if (!blob) return null;
+    const url = URL.createObjectURL(blob);
+    objectUrlByRef.set(ref, url);
+    refByObjectUrl.set(url, ref);
+    return url;
+};
+
+/** Prepares a value for storage: inline data URLs move into the store, object URLs go back to their refs. */
+export const toStoredMedia = <T>(value: T): Promise<T> =>
+    mapStrings(value, text => isStorableDataUrl(text) || refByObjectUrl.has(text), async (text) => {
+        const ref = refByObjectUrl.get(text);
+        if (ref) return ref;
+        try {
+            return await refForDataUrl(text);
+        } catch (e) {
+            console.warn("Could not move media into the media store; keeping it inline.", e);
+            return text;
+        }
+    });
+
+// Swaps refs for object URLs. A ref whose blob is gone stays as is, so nothing else is lost.
+export const toDisplayMedia = <T>(value: T): Promise<T> =>
+    mapStrings(value, isMediaRef, async (ref) => (await objectUrlForRef(ref)) ?? ref);
+
+// Swaps refs and object URLs for self-contained data URLs, for files that leave the device.
+export const toPortableMedia = <T>(value: T): Promise<T> =>
+    mapStrings(value, text => isMediaRef(text) || refByObjectUrl.has(text), async (text) => {
+        const blob = await getMediaBlob(refByObjectUrl.get(text) || text);
+        return blob ? blobToDataUrl(blob) : null;
+    });
+
+export const getMediaDataUrl = async (ref: string): Promise<string | null> => {
+    const blob = await getMediaBlob(ref);
+    return blob ? blobToDataUrl(blob) : null;
+};
+
+// Size in bytes of every stored blob, by reference.
+export const getMediaSizes = async (): Promise<Map<string, number>> => {
+    const sizes = new Map<string, number>();
+    await getMediaDb().iterate((entry: MediaEntry, hash: string) => { sizes.set(`${MEDIA_REF_PREFIX}${hash}`, entry?.size || 0); });
+    return sizes;
+};
+
+/** Deletes blobs that nothing references any more. Returns the number of bytes freed. */
+export const pruneMedia = async (inUse: Set<string>, now: number = Date.now()): Promise<number> => {
+    const db = getMediaDb();
+    const hashes: string[] = await db.keys();
+    let freed = 0;
+    for (const hash of hashes) {
+        const ref = `${MEDIA_REF_PREFIX}${hash}`;
+        if (inUse.has(ref)) continue;
+        const entry: MediaEntry | null = await db.getItem(hash);
+        if (entry && now - entry.createdAt < GC_GRACE_MS) continue;
+        await db.removeItem(hash);
+        freed += entry?.size || 0;
+
+        const url = objectUrlByRef.get(ref);
+        if (url) {
+            URL.revokeObjectURL(url);
+            objectUrlByRef.delete(ref);
+            refByObjectUrl.delete(url);
+        }
+        refByDataUrl.forEach((r, dataUrl) => { if (r === ref) refByDataUrl.delete(dataUrl); });
+    }
+    return freed;
+};
+
+export const clearMedia = async (): Promise<void> => {
+    await getMediaDb().clear();
+    objectUrlByRef.forEach(url => URL.revokeObjectURL(url));
+    objectUrlByRef.clear();
+    refByObjectUrl.clear();
+    refByDataUrl.clear();
+};
@@ -0,0 +1,150 @@
+import type { BotMemory, ChatMessage } from '../types';
+
+/**
+ * 🗂️ LONG-TERM MEMORY
+ * Captures durable facts the user mentions and picks the ones relevant to the
+ * current turn. Everything is rule-based and runs offline: extraction uses
+ * phrase patterns, retrieval uses TF-IDF over the bot's own memories.
+ */
+
+interface FactPattern {
+    regex: RegExp;
+    slot?: string | ((match: RegExpMatchArray) => string);
+    format: (match: RegExpMatchArray) => string;
+}
+
+// A captured phrase ends at punctuation, a conjunction or a line break.
+const PHRASE = `([^.,!?;\\n]+?)(?=\\s+(?:and|but|so|because)\\b|[.,!?;\\n]|$)`;
+const MAX_PHRASE_WORDS = 8;
+
+const FACT_PATTERNS: FactPattern[] = [
+    { regex: /\bmy name is ([a-z][\w'-]*)/i, slot: 'name', format: m => `The user's name is ${capitalize(m[1])}.` },
+    { regex: /\bcall me ([a-z][\w'-]*)/i, slot: 'nickname', format: m => `The user likes to be called ${capitalize(m[1])}.` },
+    { regex: /\bi(?: am|'m) (\d{1,2}) (?:years old|yrs old|yo)\b/i, slot: 'age', format: m => `The user is ${m[1]} years old.` },
+    { regex: /\bmy birthday is ([^.,!?;\n]+)/i, slot: 'birthday', format: m => `The user's birthday is ${m[1].trim()}.` },
+    { regex: new RegExp(`\\bi live in ${PHRASE}`, 'i'), slot: 'home', format: m => `The user lives in ${m[1].trim()}.` },
+    { regex: new RegExp(`\\bi(?: am|'m) from ${PHRASE}`, 'i'), slot: 'origin', format: m => `The user is from ${m[1].trim()}.` },
+    { regex: new RegExp(`\\bi work (as|at|in) ${PHRASE}`, 'i'), slot: 'work', format: m => `The user works ${m[1].toLowerCase()} ${m[2].trim()}.` },
+    { regex: new RegExp(`\\bi(?: am|'m) studying ${PHRASE}`, 'i'), slot: 'study', format: m => `The user is studying ${m[1].trim()}.` },
+    {
+        regex: new RegExp(`\\bmy (fav(?:ou?rite)? [a-z]+) is ${PHRASE}`, 'i'),
+        slot: m => `favorite:${m[1].toLowerCase().split(' ').pop()}`,
+        format: m => `The user's ${m[1].toLowerCase().replace(/^fav(?:ou?rite)?/, 'favorite')} is ${m[2].trim()}.`
+    },
+    {
+        regex: /\bmy (dog|cat|pet|sister|brother|mom|mother|dad|father|wife|husband|girlfriend|boyfriend|partner|son|daughter|best friend)(?:'s name is| is called| is named) ([a-z][\w'-]*)/i,
+        slot: m => `relation:${m[1].toLowerCase()}`,
+        format: m => `The user's ${m[1].toLowerCase()} is called ${capitalize(m[2])}.`
+    },
+    { regex: new RegExp(`\\bi (?:really )?(love|like|enjoy|hate|dislike|prefer) ${PHRASE}`, 'i'), format: m => `The user ${m[1].toLowerCase()}s ${toThirdPerson(m[2])}.` },
+    { regex: new RegExp(`\\bi(?: am|'m) allergic to ${PHRASE}`, 'i'), format: m => `The user is allergic to ${m[1].trim()}.` },
+];
+
+// Events are dated when captured so "yesterday" still makes sense a week later.
+const EVENT_PATTERN = new RegExp(`\\b(today|yesterday|last night|this morning) i ${PHRASE}`, 'i');
+
+const STOPWORDS = new Set([
+    'the', 'a', 'an', 'and', 'or', 'but', 'is', 'are', 'was', 'were', 'be', 'been', 'to', 'of', 'in', 'on', 'at', 'for',
+    'with', 'it', 'its', 'this', 'that', 'i', 'me', 'my', 'you', 'your', 'we', 'he', 'she', 'they', 'them', 'his', 'her',
+    'user', 'users', 'do', 'does', 'did', 'so', 'what', 'how', 'about', 'just', 'not', 'no', 'yes', 'have', 'has', 'had'
+]);
+
+const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1);
+
+// Captured phrases are first person ("my dog"); memories are written about the user.
+const toThirdPerson = (phrase: string) =>
+    phrase.trim().replace(/\bmyself\b/gi, 'themselves').replace(/\bmy\b/gi, 'their').replace(/\bme\b/gi, 'them').replace(/\bmine\b/gi, 'theirs');
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, '').replace(/\s+/g, ' ').trim();
+
+// "I love you" and friends are chat, not facts.
+const isFactPhrase = (text: string) => {
+    const trimmed = text.trim();
+    return trimmed.split(/\s+/).length <= MAX_PHRASE_WORDS && !/^(you|u|it|this|that|them|him|her|us)$/i.test(trimmed);
+};
+
+const tokenize = (text: string): string[] =>
+    text.toLowerCase()
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter(t => t.length > 1 && !STOPWORDS.has(t))
+        .map(t => (t.length > 3 && t.endsWith('s') ? t.slice(0, -1) : t));
+
+export interface ExtractedFact {
+    text: string;
+    slot?: string;
+}
+
+// Pulls durable facts out of one user message.
+export const extractFacts = (message: ChatMessage, now: number = Date.now()): ExtractedFact[] => {
+    if (message.sender !== 'user' || !message.text) return [];
+    // Role-play actions (*waves*) are not statements about the user.
+    const text = message.text.replace(/\*[^*]*\*/g, ' ');
+    const facts: ExtractedFact[] = [];
+
+    for (const pattern of FACT_PATTERNS) {
+        const match = text.match(pattern.regex);
+        if (!match || !match.slice(1).every(isFactPhrase)) continue;
+        const slot = typeof pattern.slot === 'function' ? pattern.slot(match) : pattern.slot;
+        facts.push({ text: pattern.format(match), slot });
+    }
+
+    const event = text.match(EVENT_PATTERN);
+    if (event && isFactPhrase(event[2])) {
+        const date = new Date(now);
+        if (event[1].toLowerCase() === 'yesterday') date.setDate(date.getDate() - 1);
+        facts.push({ text: `On ${date.toLocaleDateString()} the user said they ${toThirdPerson(event[2])}.` });
+    }
+
+    return facts;
+};
+
+// Adds new facts to a bot's memories. Slotted facts replace the old value unless the user pinned it.
+export const mergeFacts = (memories: BotMemory[], facts: ExtractedFact[], now: number = Date.now()): BotMemory[] => {
+    let next = memories;
+    facts.forEach((fact, index) => {
+        if (next.some(m => normalize(m.text) === normalize(fact.text))) return;
+
+        const existing = fact.slot ? next.find(m => m.slot === fact.slot) : undefined;
+        if (existing) {
+            if (existing.pinned) return;
+            next = next.map(m => m === existing ? { ...m, text: fact.text, source: 'auto', updatedAt: now } : m);
+            return;
+        }
+
+        next = [...next, { id: `mem-${now}-${index}`, text: fact.text, pinned: false, source: 'auto', slot: fact.slot, createdAt: now, updatedAt: now }];
+    });
+    return next;
+};
+
+/**
+ * Picks the memories worth sending with this turn: every pinned memory, then the
+ * best TF-IDF matches for `query`, topped up with the most recent ones.
+ */
+export const retrieveMemories = (memories: BotMemory[], query: string, limit: number = 5): BotMemory[] => {
+    const pinned = memories.filter(m => m.pinned);
+    const candidates = memories.filter(m => !m.pinned);
+    if (candidates.length === 0 || limit <= 0) return pinned;
+
+    const documents = candidates.map(m => tokenize(m.text));
+    const documentFrequency = new Map<string, number>();
+    documents.forEach(tokens => new Set(tokens).forEach(t => documentFrequency.set(t, (documentFrequency.get(t) || 0) + 1)));
+    const idf = (term: string) => Math.log((candidates.length + 1) / ((documentFrequency.get(term) || 0) + 1)) + 1;
+
+    const queryTerms = new Set(tokenize(query));
+    const scored = candidates.map((memory, i) => {
+        const tokens = documents[i];
+        let score = 0;
+        queryTerms.forEach(term => {
+            const tf = tokens.filter(t => t === term).length;
+            if (tf > 0) score += (tf / tokens.length) * idf(term);
+        });
+        return { memory, score };
+    });
+
+    const ranked = scored
+        .sort((a, b) => b.score - a.score || b.memory.updatedAt - a.memory.updatedAt)
+        .slice(0, limit)
+        .map(s => s.memory);
+
+    return [...pinned, ...ranked];
+};
@@ -0,0 +1,73 @@
+import type { AIProvider } from '../types';
+
+/**
+ * 🧭 MODEL REGISTRY
+ * Single source of truth for every selectable model. The settings list, the client
+ * router and the server proxy all read from here, so adding a model is one entry.
+ */
+
+// How the proxy talks to a model's vendor.
+export type ProviderAdapter = 'gemini' | 'openai-compatible' | 'local';
+
+export interface ModelCapabilities {
+    streaming: boolean;
+    vision: boolean;
+    reasoning: boolean; // returns reasoning separately from the reply text
+}
+
+export interface ModelDefinition {
+    id: string;
+    name: string;
+    provider: AIProvider;
+    quotaLimit?: number; // free-tier daily estimate shown in settings
+    contextWindow: number; // tokens
+    capabilities: ModelCapabilities;
+    adapter: ProviderAdapter;
+}
+
+export interface ProviderDefinition {
+    id: AIProvider;
+    label: string;
+    requiresKey: boolean;
+}
+
+export const PROVIDERS: ProviderDefinition[] = [
+    { id: 'local', label: 'Local', requiresKey: false },
+    { id: 'gemini', label: 'Google', requiresKey: true },
+    { id: 'deepseek', label: 'DeepSeek', requiresKey: true },
+    { id: 'groq', label: 'Groq', requiresKey: true },
+    { id: 'custom', label: 'Custom Endpoint', requiresKey: false },
+];
+
+const CHAT_ONLY: ModelCapabilities = { streaming: true, vision: false, reasoning: false };
+const MULTIMODAL: ModelCapabilities = { streaming: true, vision: true, reasoning: false };
+
+export const MODEL_REGISTRY = [
+    { id: 'local-offline', name: '⚡ Local / Offline (Privacy Mode)', provider: 'local', adapter: 'local', contextWindow: 4_096, capabilities: { streaming: false, vision: false, reasoning: false } },
+    { id: 'gemini-3-flash-preview', name: 'Gemini 3 Flash (Fastest)', provider: 'gemini', adapter: 'gemini', quotaLimit: 20, contextWindow: 1_048_576, capabilities: MULTIMODAL },
+    { id: 'gemini-3-pro-preview', name: 'Gemini 3 Pro (Smartest)', provider: 'gemini', adapter: 'gemini', quotaLimit: 5, contextWindow: 1_048_576, capabilities: MULTIMODAL },
+    { id: 'deepseek-chat', name: 'DeepSeek Chat (V3)', provider: 'deepseek', adapter: 'openai-compatible', contextWindow: 64_000, capabilities: CHAT_ONLY },
+    { id: 'deepseek-reasoner', name: 'DeepSeek Reasoner (R1)', provider: 'deepseek', adapter: 'openai-compatible', contextWindow: 64_000, capabilities: { streaming: true, vision: false, reasoning: true } },
+    { id: 'llama-3.3-70b-versatile', name: 'LLaMA 3.3 70B (Versatile)', provider: 'groq', adapter: 'openai-compatible', contextWindow: 128_000, capabilities: CHAT_ONLY },
+    { id: 'llama-3.1-8b-instant', name: 'LLaMA 3.1 8B (Instant)', provider: 'groq', adapter: 'openai-compatible', contextWindow: 128_000, capabilities: CHAT_ONLY },
+    { id: 'mixtral-8x7b-32768', name: 'Mixtral 8x7B', provider: 'groq', adapter: 'openai-compatible', contextWindow: 32_768, capabilities: CHAT_ONLY },
+    { id: 'gemini-2.5-flash', name: 'Gemini 2.5 Flash', provider: 'gemini', adapter: 'gemini', quotaLimit: 15, contextWindow: 1_048_576, capabilities: MULTIMODAL },
+    { id: 'gemini-2.5-pro', name: 'Gemini 2.5 Pro', provider: 'gemini', adapter: 'gemini', quotaLimit: 2, contextWindow: 1_048_576, capabilities: MULTIMODAL },
+    { id: 'gemini-flash-latest', name: 'Gemini Flash (Legacy)', provider: 'gemini', adapter: 'gemini', quotaLimit: 15, contextWindow: 1_048_576, capabilities: MULTIMODAL },
+    { id: 'gemini-flash-lite-latest', name: 'Gemini Flash Lite', provider: 'gemini', adapter: 'gemini', quotaLimit: 15, contextWindow: 1_048_576, capabilities: MULTIMODAL },
+    // Base URL and model name come from the user's settings, not from this entry.
+    { id: 'custom-endpoint', name: 'OpenAI-Compatible Server', provider: 'custom', adapter: 'openai-compatible', contextWindow: 8_192, capabilities: CHAT_ONLY },
+] as const satisfies readonly ModelDefinition[];
+
+export type ModelId = (typeof MODEL_REGISTRY)[number]['id'];
+
+// The registry widened to plain definitions, for code that iterates or looks up by string.
+export const MODELS: readonly ModelDefinition[] = MODEL_REGISTRY;
+
+export const DEFAULT_MODEL_ID: ModelId = 'gemini-3-flash-preview';
+
+export const getModel = (id: string): ModelDefinition | undefined =>
+    MODELS.find(m => m.id === id);
+
+export const getProvider = (id: AIProvider): ProviderDefinition | undefined =>
+    PROVIDERS.find(p => p.id === id);
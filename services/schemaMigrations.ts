@@ -0,0 +1,191 @@
+import type { BotProfile, BotThreads, LoreEntry } from '../types';
+import type { UserData } from './storageService';
+import { createDefaultThreads, getThreadIds } from './chatThreads';
+
+/**
+ * 🧬 SCHEMA MIGRATIONS
+ * Stored data carries a schema version. At load, every step newer than that version
+ * runs in order, then the result is validated: malformed records (messages without
+ * ids, bots missing required fields, ...) are reported and set aside instead of
+ * being handed to the app.
+ */
+
+// Data saved before versioning (per-key layout, see migrateData) counts as version 1.
+export const BASELINE_SCHEMA_VERSION = 1;
+export const SCHEMA_VERSION = 3;
+
+export interface SchemaMigration {
+    version: number; // the version this step produces
+    description: string;
+    migrate: (data: Partial<UserData>) => Partial<UserData>;
+}
+
+export interface SchemaIssue {
+    key: keyof UserData;
+    path: string;
+    message: string;
+    // Errors keep the record out of the app; warnings are only reported.
+    severity: 'error' | 'warning';
+    record?: unknown;
+}
+
+// Each step upgrades data from `version - 1` to `version`. Steps must leave untouched keys as they are.
+export const SCHEMA_MIGRATIONS: SchemaMigration[] = [
+    {
+        version: 2,
+        description: 'Bots use conversationMode instead of the isSpicy flag',
+        migrate: (data) => {
+            if (!Array.isArray(data.bots) || !data.bots.some(bot => bot && 'isSpicy' in bot)) return data;
+            return {
+                ...data,
+                bots: data.bots.map(bot => {
+                    if (!bot || !('isSpicy' in bot)) return bot;
+                    const { isSpicy, ...rest } = bot;
+                    return { ...rest, conversationMode: bot.conversationMode || (isSpicy ? 'spicy' : 'normal') } as BotProfile;
+                })
+            };
+        }
+    },
+    {
+        version: 3,
+        description: "Each bot's chat becomes its default named thread",
+        migrate: (data) => {
+            if (!Array.isArray(data.bots) || data.chatThreads) return data;
+            const chatThreads: Record<string, BotThreads> = {};
+            data.bots.forEach(bot => {
+                if (bot?.id) chatThreads[bot.id] = createDefaultThreads(bot.id, data.chatHistories?.[bot.id]?.[0]?.timestamp ?? Date.now());
+            });
+            return { ...data, chatThreads };
+        }
+    },
+];
+
+export const migrateUserData = (data: Partial<UserData>, fromVersion: number): { data: Partial<UserData>; applied: SchemaMigration[] } => {
+    if (fromVersion > SCHEMA_VERSION) {
+        throw new Error(`This data was saved by a newer version of the app (schema v${fromVersion}).`);
+    }
+    const applied = SCHEMA_MIGRATIONS.filter(step => step.version > fromVersion).sort((a, b) => a.version - b.version);
+    return { data: applied.reduce((current, step) => step.migrate(current), data), applied };
+};
+
+const isObject = (value: unknown): value is Record<string, any> => !!value && typeof value === 'object' && !Array.isArray(value);
+const isText = (value: unknown) => typeof value === 'string';
+const hasId = (value: any) => typeof value?.id === 'string' && value.id.length > 0;
+
+// Checks each item of an array-valued key and keeps only those without errors.
+const checkList = <T>(
+    key: keyof UserData, items: unknown, issues: SchemaIssue[], path: string,
+    check: (item: any) => { error?: string; warning?: string }
+): T[] | undefined => {
+    if (items === undefined) return undefined;
+    if (!Array.isArray(items)) {
+        issues.push({ key, path, message: 'Expected a list.', severity: 'error', record: items });
+        return undefined;
+    }
+    const ids = new Set(items.filter(hasId).map(item => item.id));
+    const seen = new Set<string>();
+    let changed = false;
+    const kept: any[] = [];
+    items.forEach((item, i) => {
+        const itemPath = `${path}[${i}]`;
+        const { error, warning } = isObject(item) ? check(item) : { error: 'Not an object.', warning: undefined };
+        if (error) {
+            issues.push({ key, path: itemPath, message: error, severity: 'error', record: item });
+            changed = true;
+            return;
+        }
+        if (warning) issues.push({ key, path: itemPath, message: warning, severity: 'warning' });
+        // Older builds made ids from Date.now(), so real records can collide. The later one gets a fresh id.
+        if (hasId(item) && seen.has(item.id)) {
+            let n = 2;
+            while (ids.has(`${item.id}-${n}`)) n++;
+            const id = `${item.id}-${n}`;
+            ids.add(id);
+            issues.push({ key, path: itemPath, message: `Duplicate id "${item.id}", renamed to "${id}".`, severity: 'warning' });
+            item = { ...item, id };
+            changed = true;
+        }
+        if (hasId(item)) seen.add(item.id);
+        kept.push(item);
+    });
+    // Unchanged lists keep their identity, so callers can tell which keys need rewriting.
+    return (changed ? kept : items) as T[];
+};
+
+const missing = (item: any, fields: string[]) => {
+    const absent = fields.filter(f => !isText(item[f]) || (f === 'id' && !item[f]));
+    return absent.length > 0 ? `Missing ${absent.join(', ')}.` : undefined;
+};
+
+const checkRecordOfLists = <T>(
+    key: keyof UserData, value: unknown, issues: SchemaIssue[],
+    check: (item: any) => { error?: string; warning?: string }
+): Record<string, T[]> | undefined => {
+    if (value === undefined) return undefined;
+    if (!isObject(value)) {
+        issues.push({ key, path: key, message: 'Expected an object keyed by bot id.', severity: 'error', record: value });
+        return undefined;
+    }
+    const result: Record<string, T[]> = {};
+    let changed = false;
+    Object.keys(value).forEach(botId => {
+        const list = checkList<T>(key, value[botId], issues, `${key}.${botId}`, check);
+        if (list) result[botId] = list;
+        if (list !== value[botId]) changed = true;
+    });
+    return changed ? result : value as Record<string, T[]>;
+};
+
+/**
+ * Validates stored data. Returns every problem found and the data with the
+ * malformed records (severity 'error') left out. Nothing is repaired silently.
+ */
+export const checkUserData = (data: Partial<UserData>): { data: Partial<UserData>; issues: SchemaIssue[] } => {
+    const issues: SchemaIssue[] = [];
+    const clean: Partial<UserData> = { ...data };
+    const assign = <K extends keyof UserData>(key: K, value: UserData[K] | undefined) => {
+        if (value === undefined) delete clean[key];
+        else clean[key] = value;
+    };
+
+    if ('bots' in data) assign('bots', checkList<BotProfile>('bots', data.bots, issues, 'bots', bot => ({
+        error: missing(bot, ['id', 'name', 'personality']),
+        warning: missing(bot, ['description', 'photo', 'scenario']),
+    })));
+    if ('personas' in data) assign('personas', checkList('personas', data.personas, issues, 'personas', persona => ({
+        error: missing(persona, ['id', 'name', 'personality']),
+    })));
+    if ('apiKeys' in data) assign('apiKeys', checkList('apiKeys', data.apiKeys, issues, 'apiKeys', entry => ({
+        error: missing(entry, ['id', 'key']),
+    })));
+    if ('chatHistories' in data) assign('chatHistories', checkRecordOfLists('chatHistories', data.chatHistories, issues, message => ({
+        error: missing(message, ['id', 'text'])
+            || (message.sender !== 'user' && message.sender !== 'bot' ? `Unknown sender "${message.sender}".` : undefined)
+            || (typeof message.timestamp !== 'number' ? 'Missing timestamp.' : undefined),
+    })));
+    if ('botMemories' in data) assign('botMemories', checkRecordOfLists('botMemories', data.botMemories, issues, memory => ({
+        error: missing(memory, ['id', 'text']),
+    })));
+    if (data.lorebook !== undefined) {
+        const lorebook = data.lorebook;
+        if (!isObject(lorebook)) {
+            issues.push({ key: 'lorebook', path: 'lorebook', message: 'Expected an object.', severity: 'error', record: lorebook });
+            assign('lorebook', undefined);
+        } else {
+            const entries = checkList<LoreEntry>('lorebook', lorebook.entries, issues, 'lorebook.entries', entry => ({
+                error: missing(entry, ['id', 'name', 'content']) || (!Array.isArray(entry.keywords) ? 'Missing keywords.' : undefined),
+            }));
+            assign('lorebook', entries === lorebook.entries ? lorebook : { ...lorebook, entries: entries || [] });
+        }
+    }
+
+    // Chats left behind by deleted bots still load; they are only worth a mention.
+    const chatIds = new Set((clean.bots || []).flatMap(b => getThreadIds(clean.chatThreads || {}, b.id)));
+    if (clean.bots && clean.chatHistories) {
+        Object.keys(clean.chatHistories).forEach(chatId => {
+            if (!chatIds.has(chatId)) issues.push({ key: 'chatHistories', path: `chatHistories.${chatId}`, message: 'Chat belongs to a bot or thread that no longer exists.', severity: 'warning' });
+        });
+    }
+
+    return { data: clean, issues };
+};
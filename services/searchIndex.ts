@@ -0,0 +1,170 @@
+import type { ChatMessage } from '../types';
+
+/**
+ * 🔎 MESSAGE SEARCH
+ * An in-memory inverted index over every chat thread. The chat handlers index exactly
+ * what they change (`indexMessage`, `indexThread`); `syncSearchIndex` runs after every
+ * history change and only re-checks threads whose array is new, which also picks up
+ * loads, restores, other tabs and branch switches. Nothing here is persisted, so a
+ * locked vault leaves no readable index behind.
+ */
+
+export interface SearchFilters {
+    threadIds?: string[]; // limit to these threads (a bot's threads)
+    sender?: 'user' | 'bot';
+    from?: number;
+    to?: number;
+}
+
+export interface SearchHit {
+    threadId: string;
+    message: ChatMessage;
+}
+
+interface IndexedMessage {
+    threadId: string;
+    message: ChatMessage;
+    terms: string[];
+}
+
+const docs = new Map<string, IndexedMessage>();
+const postings = new Map<string, Set<string>>();
+// The keys of `postings` in sorted order, so prefix lookups are a binary search.
+const sortedTerms: string[] = [];
+const threadDocs = new Map<string, Set<string>>();
+const indexedHistories = new Map<string, ChatMessage[]>();
+
+const docKey = (threadId: string, messageId: string) => `${threadId}\u0000${messageId}`;
+
+// Lowercased, accent-free word stems; "Café!" and "cafe" match.
+const normalize = (word: string) => word.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+const WORD = /[\p{L}\p{N}]+/gu;
+
+const tokenize = (text: string): string[] => (text.match(WORD) || []).map(normalize);
+
+// Index of the first term not below `term`.
+const lowerBound = (term: string) => {
+    let lo = 0;
+    let hi = sortedTerms.length;
+    while (lo < hi) {
+        const mid = (lo + hi) >>> 1;
+        if (sortedTerms[mid] < term) lo = mid + 1;
+        else hi = mid;
+    }
+    return lo;
+};
+
+// Error notices aren't part of the conversation.
+const isSearchable = (message: ChatMessage) => !!message.text && !message.text.includes("(System:");
+
+const addDoc = (threadId: string, message: ChatMessage) => {
+    if (!isSearchable(message)) return;
+    const key = docKey(threadId, message.id);
+    const terms = [...new Set(tokenize(message.text))];
+    docs.set(key, { threadId, message, terms });
+    terms.forEach(term => {
+        if (!postings.has(term)) {
+            postings.set(term, new Set());
+            sortedTerms.splice(lowerBound(term), 0, term);
+        }
+        postings.get(term)!.add(key);
+    });
+    if (!threadDocs.has(threadId)) threadDocs.set(threadId, new Set());
+    threadDocs.get(threadId)!.add(key);
+};
+
+const removeDoc = (key: string) => {
+    const doc = docs.get(key);
+    if (!doc) return;
+    doc.terms.forEach(term => {
+        const keys = postings.get(term);
+        keys?.delete(key);
+        if (keys?.size === 0) {
+            postings.delete(term);
+            sortedTerms.splice(lowerBound(term), 1);
+        }
+    });
+    threadDocs.get(doc.threadId)?.delete(key);
+    docs.delete(key);
+};
+
+const dropThread = (threadId: string) => {
+    threadDocs.get(threadId)?.forEach(removeDoc);
+    threadDocs.delete(threadId);
+    indexedHistories.delete(threadId);
+};
+
+/** Indexes one new or edited message. */
+export const indexMessage = (threadId: string, message: ChatMessage) => {
+    removeDoc(docKey(threadId, message.id));
+    addDoc(threadId, message);
+};
+
+/** Brings one thread up to date with `history`; only added, edited or removed messages are touched. */
+export const indexThread = (threadId: string, history: ChatMessage[]) => {
+    const keep = new Set<string>();
+    history.forEach(message => {
+        const key = docKey(threadId, message.id);
+        keep.add(key);
+        const doc = docs.get(key);
+        if (doc && doc.message.text === message.text) { doc.message = message; return; }
+        removeDoc(key);
+        addDoc(threadId, message);
+    });
+    [...(threadDocs.get(threadId) || [])].forEach(key => { if (!keep.has(key)) removeDoc(key); });
+    indexedHistories.set(threadId, history);
+};
+
+export const syncSearchIndex = (chatHistories: Record<string, ChatMessage[]>) => {
+    Object.entries(chatHistories).forEach(([threadId, history]) => {
+        if (indexedHistories.get(threadId) !== history) indexThread(threadId, history);
+    });
+    [...indexedHistories.keys()].forEach(threadId => { if (!chatHistories[threadId]) dropThread(threadId); });
+};
+
+// Every indexed term starting with `prefix`, so results show up while a word is still being typed.
+const matchingKeys = (prefix: string): Set<string> => {
+    const keys = new Set<string>();
+    for (let i = lowerBound(prefix); i < sortedTerms.length && sortedTerms[i].startsWith(prefix); i++) {
+        postings.get(sortedTerms[i])!.forEach(key => keys.add(key));
+    }
+    return keys;
+};
+
+/** Messages containing every word of `query`, newest first. `total` counts all matches before `limit`. */
+export const searchMessages = (query: string, filters: SearchFilters = {}, limit = 200): { hits: SearchHit[]; total: number } => {
+    const terms = [...new Set(tokenize(query))];
+    if (terms.length === 0) return { hits: [], total: 0 };
+
+    // Narrowest term first keeps the intersection small.
+    const sets = terms.map(matchingKeys).sort((a, b) => a.size - b.size);
+    const threadIds = filters.threadIds ? new Set(filters.threadIds) : null;
+    const hits: SearchHit[] = [];
+    sets[0].forEach(key => {
+        if (!sets.every(set => set.has(key))) return;
+        const { threadId, message } = docs.get(key)!;
+        if (threadIds && !threadIds.has(threadId)) return;
+        if (filters.sender && message.sender !== filters.sender) return;
+        if (filters.from !== undefined && message.timestamp < filters.from) return;
+        if (filters.to !== undefined && message.timestamp > filters.to) return;
+        hits.push({ threadId, message });
+    });
+    hits.sort((a, b) => b.message.timestamp - a.message.timestamp);
+    return { hits: hits.slice(0, limit), total: hits.length };
+};
+
+/** Splits `text` into plain and matching parts for highlighting. */
+export const highlightMatches = (text: string, query: string): { text: string; match: boolean }[] => {
+    const terms = tokenize(query);
+    if (terms.length === 0) return [{ text, match: false }];
+    const parts: { text: string; match: boolean }[] = [];
+    let last = 0;
+    for (const word of text.matchAll(WORD)) {
+        if (!terms.some(term => normalize(word[0]).startsWith(term))) continue;
+        if (word.index! > last) parts.push({ text: text.slice(last, word.index), match: false });
+        parts.push({ text: word[0], match: true });
+        last = word.index! + word[0].length;
+    }
+    if (last < text.length) parts.push({ text: text.slice(last), match: false });
+    return parts;
+};
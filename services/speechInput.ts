@@ -0,0 +1,75 @@
+/**
+ * 🎙️ SPEECH INPUT
+ * Thin wrapper around the browser's Web Speech recognition (Chrome, Edge, Safari).
+ * Results stream in as one growing transcript; with `silenceMs`, listening stops by
+ * itself once the speaker pauses, which is what the hands-free loop needs.
+ */
+
+export interface SpeechInputHandlers {
+    onTranscript: (text: string) => void; // final and interim words so far
+    onEnd: (text: string) => void; // the whole transcript, empty if nothing was heard
+    onError: (message: string) => void;
+}
+
+export interface SpeechInputSession {
+    stop: () => void; // finish and keep what was heard
+    abort: () => void; // finish without calling onEnd
+}
+
+const getRecognitionClass = (): any => (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition || null;
+
+export const isSpeechInputSupported = () => !!getRecognitionClass();
+
+const ERROR_MESSAGES: Record<string, string> = {
+    'not-allowed': 'Microphone access was blocked. Allow it in your browser settings to talk.',
+    'service-not-allowed': 'Voice input is not available in this browser.',
+    'audio-capture': 'No microphone was found.',
+    'network': 'Voice input needs an internet connection.',
+};
+
+export const startSpeechInput = (handlers: SpeechInputHandlers, { silenceMs = 0 }: { silenceMs?: number } = {}): SpeechInputSession => {
+    const Recognition = getRecognitionClass();
+    if (!Recognition) throw new Error('Voice input is not supported in this browser.');
+
+    const recognition = new Recognition();
+    recognition.lang = navigator.language || 'en-US';
+    recognition.continuous = true;
+    recognition.interimResults = true;
+
+    let transcript = '';
+    let silenceTimer: ReturnType<typeof setTimeout> | null = null;
+    let isAborted = false;
+    let hasFailed = false;
+
+    const clearSilenceTimer = () => { if (silenceTimer) { clearTimeout(silenceTimer); silenceTimer = null; } };
+
+    recognition.onresult = (event: any) => {
+        transcript = Array.from(event.results as ArrayLike<any>).map(result => result[0].transcript).join('').trim();
+        handlers.onTranscript(transcript);
+        // The pause only counts once something was said.
+        if (silenceMs > 0) {
+            clearSilenceTimer();
+            silenceTimer = setTimeout(() => recognition.stop(), silenceMs);
+        }
+    };
+
+    recognition.onerror = (event: any) => {
+        // Hearing nothing and being stopped on purpose are normal endings.
+        if (event.error === 'no-speech' || event.error === 'aborted') return;
+        hasFailed = true;
+        clearSilenceTimer();
+        handlers.onError(ERROR_MESSAGES[event.error] || `Voice input failed (${event.error}).`);
+    };
+
+    recognition.onend = () => {
+        clearSilenceTimer();
+        if (!isAborted && !hasFailed) handlers.onEnd(transcript);
+    };
+
+    recognition.start();
+
+    return {
+        stop: () => recognition.stop(),
+        abort: () => { isAborted = true; clearSilenceTimer(); recognition.abort(); },
+    };
+};
@@ -0,0 +1,197 @@
+import type { BotProfile } from '../types';
+import { collectMediaGarbage, flushUserData, getShadowBackupSize, getStoredKeySizes, holdAppSaves, isShadowBackupFull, loadRawUserData, loadUserData, releaseAppSaves, writeUserData, type StoredKeySize, type UserData } from './storageService';
+import { collectMediaRefs, getMediaBlob, getMediaSizes, isMediaRef, mapStrings, putMedia } from './mediaStore';
+import { syncTree } from './chatTree';
+import { getThreadIds } from './chatThreads';
+
+/**
+ * 📦 STORAGE MONITOR
+ * Shows where the browser's storage quota goes (per key, per bot, media vs. history),
+ * warns before it runs out and offers cleanups that free space without losing bots:
+ * trimming old history, dropping uncropped originals and re-encoding large images.
+ */
+
+export type StorageLevel = 'ok' | 'warning' | 'critical';
+
+const WARNING_RATIO = 0.8;
+const CRITICAL_RATIO = 0.95;
+
+export interface StorageStatus {
+    usage: number;
+    quota: number;
+    level: StorageLevel;
+    shadowFull: boolean;
+}
+
+export interface BotStorageUsage {
+    botId: string;
+    name: string;
+    profileBytes: number;
+    mediaBytes: number;
+    historyBytes: number;
+    messageCount: number;
+    longestThread: number; // messages in the bot's longest thread
+}
+
+export interface StorageReport extends StorageStatus {
+    persisted: boolean;
+    keys: StoredKeySize[];
+    shadowBytes: number;
+    mediaCount: number;
+    mediaBytes: number;
+    bots: BotStorageUsage[];
+}
+
+export const formatBytes = (bytes: number): string => {
+    if (bytes < 1024) return `${bytes} B`;
+    const units = ['KB', 'MB', 'GB'];
+    let value = bytes / 1024;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) { value /= 1024; unit++; }
+    return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+};
+
+const jsonSize = (value: unknown) => value === undefined ? 0 : new Blob([JSON.stringify(value)]).size;
+
+export const getStorageStatus = async (): Promise<StorageStatus> => {
+    const estimate = navigator.storage?.estimate ? await navigator.storage.estimate() : {};
+    const usage = estimate.usage || 0;
+    const quota = estimate.quota || 0;
+    const ratio = quota > 0 ? usage / quota : 0;
+    const shadowFull = isShadowBackupFull();
+    const level: StorageLevel = ratio >= CRITICAL_RATIO ? 'critical' : (ratio >= WARNING_RATIO || shadowFull) ? 'warning' : 'ok';
+    return { usage, quota, level, shadowFull };
+};
+
+// Asks the browser not to evict our data under storage pressure. Resolves to whether it is (now) persistent.
+export const requestPersistentStorage = async (): Promise<boolean> => {
+    if (!navigator.storage?.persist) return false;
+    if (await navigator.storage.persisted()) return true;
+    return navigator.storage.persist();
+};
+
+export const getStorageReport = async (): Promise<StorageReport> => {
+    await flushUserData();
+    const [status, keys, data, mediaSizes] = await Promise.all([getStorageStatus(), getStoredKeySizes(), loadRawUserData(), getMediaSizes()]);
+    const persisted = navigator.storage?.persisted ? await navigator.storage.persisted() : false;
+
+    const bots: BotStorageUsage[] = (data.bots || []).map(bot => {
+        // Media shared with other bots (clones, same photo) counts for each of them.
+        const mediaBytes = Array.from(collectMediaRefs(bot)).reduce((sum, ref) => sum + (mediaSizes.get(ref) || 0), 0);
+        // All of the bot's threads count towards it.
+        const threadIds = getThreadIds(data.chatThreads || {}, bot.id);
+        const threadBytes = threadIds.reduce((sum, id) => sum + jsonSize(data.chatHistories?.[id]) + jsonSize(data.chatTrees?.[id]) + jsonSize(data.chatSummaries?.[id]), 0);
+        return {
+            botId: bot.id,
+            name: bot.name,
+            profileBytes: jsonSize(bot),
+            mediaBytes,
+            historyBytes: threadBytes + jsonSize(data.botMemories?.[bot.id]),
+            messageCount: threadIds.reduce((sum, id) => sum + (data.chatHistories?.[id]?.length || 0), 0),
+            longestThread: Math.max(0, ...threadIds.map(id => data.chatHistories?.[id]?.length || 0)),
+        };
+    }).sort((a, b) => (b.mediaBytes + b.historyBytes) - (a.mediaBytes + a.historyBytes));
+
+    return {
+        ...status,
+        persisted,
+        keys,
+        shadowBytes: getShadowBackupSize(),
+        mediaCount: mediaSizes.size,
+        mediaBytes: Array.from(mediaSizes.values()).reduce((sum, size) => sum + size, 0),
+        bots,
+    };
+};
+
+// Receives the reloaded data after a cleanup, to replace the app's state.
+export type ApplyCleanup = (data: Partial<UserData>) => void;
+
+/**
+ * Rewrites `keys` with what `clean` makes of them, collects media nothing points to any more
+ * and hands the reloaded data to `apply`. The app's saves of `keys` are held until then, so
+ * its pre-cleanup state can't write the old values back. Resolves to the media bytes freed.
+ */
+const runCleanup = async (
+    keys: (keyof UserData)[], apply: ApplyCleanup,
+    clean: (raw: Partial<UserData>) => Promise<Partial<UserData>>
+): Promise<number> => {
+    await holdAppSaves(keys);
+    try {
+        await writeUserData(await clean(await loadRawUserData(keys)));
+        const freedBytes = await collectMediaGarbage();
+        apply(await loadUserData());
+        return freedBytes;
+    } finally {
+        releaseAppSaves(keys);
+    }
+};
+
+// Keeps the newest `keepLast` messages of every chat. Rolling summaries and memories are left alone.
+export const trimHistories = (keepLast: number, apply: ApplyCleanup): Promise<number> =>
+    runCleanup(['chatHistories', 'chatTrees'], apply, async ({ chatHistories = {}, chatTrees = {} }) => {
+        const histories = { ...chatHistories };
+        const trees = { ...chatTrees };
+        Object.keys(histories).forEach(botId => {
+            if (histories[botId].length <= keepLast) return;
+            histories[botId] = histories[botId].slice(-keepLast);
+            if (trees[botId]) trees[botId] = syncTree(trees[botId], histories[botId]);
+        });
+        return { chatHistories: histories, chatTrees: trees };
+    });
+
+// The uncropped copies kept for re-cropping. Bots keep their cropped images.
+const ORIGINAL_FIELDS = ['originalPhoto', 'originalChatBackground', 'originalGalleryImages', 'originalGalleryVideos'] as const;
+
+export const dropOriginalCopies = (apply: ApplyCleanup): Promise<number> =>
+    runCleanup(['bots'], apply, async ({ bots = [] }) => ({
+        bots: bots.map(bot => {
+            const copy: BotProfile = { ...bot };
+            ORIGINAL_FIELDS.forEach(field => { delete copy[field]; });
+            return copy;
+        })
+    }));
+
+const MAX_IMAGE_DIMENSION = 1280;
+const IMAGE_QUALITY = 0.82;
+// Smaller images are not worth re-encoding.
+const MIN_COMPRESS_BYTES = 200 * 1024;
+
+const encodeCanvas = (canvas: HTMLCanvasElement, type: string): Promise<Blob | null> =>
+    new Promise(resolve => canvas.toBlob(resolve, type, IMAGE_QUALITY));
+
+// Re-encodes one image at a bounded size. Returns null when that would not save space.
+const compressImage = async (blob: Blob): Promise<Blob | null> => {
+    const bitmap = await createImageBitmap(blob);
+    const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+
+    // WebP keeps transparency; browsers that cannot encode it hand back a PNG, so fall back to JPEG.
+    let compressed = await encodeCanvas(canvas, 'image/webp');
+    if (!compressed || compressed.type !== 'image/webp') compressed = await encodeCanvas(canvas, 'image/jpeg');
+    return compressed && compressed.size < blob.size * 0.9 ? compressed : null;
+};
+
+// Re-encodes large photos everywhere they are used (bots, personas, saved images). GIFs and videos are skipped.
+export const compressImages = (apply: ApplyCleanup): Promise<number> =>
+    runCleanup(['bots', 'personas', 'savedImages'], apply, async ({ bots, personas, savedImages }) => {
+        const compressed = await mapStrings({ bots, personas, savedImages }, isMediaRef, async (ref) => {
+            const blob = await getMediaBlob(ref);
+            if (!blob || !blob.type.startsWith('image/') || blob.type === 'image/gif' || blob.type === 'image/svg+xml' || blob.size < MIN_COMPRESS_BYTES) return ref;
+            try {
+                const smaller = await compressImage(blob);
+                return smaller ? putMedia(smaller) : ref;
+            } catch (e) {
+                console.warn("Could not compress image", e);
+                return ref;
+            }
+        });
+        const changes: Partial<UserData> = {};
+        if (compressed.bots !== bots) changes.bots = compressed.bots;
+        if (compressed.personas !== personas) changes.personas = compressed.personas;
+        if (compressed.savedImages !== savedImages) changes.savedImages = compressed.savedImages;
+        return changes;
+    });
@@ -1,10 +1,14 @@
 
-import { BotProfile, Persona, ChatMessage, AIModelOption, VoicePreference, ChatSession, CustomBlock, GeminiUsage, ApiKeyEntry } from '../types';
+import { BotProfile, Persona, ChatMessage, AIModelOption, VoicePreference, ChatSession, CustomBlock, GeminiUsage, ApiKeyEntry, CustomEndpointConfig, TtsEngineConfig, Lorebook, ChatSummary, BotMemory, ChatTree, GroupChat, BotThreads } from '../types';
+import { clearMedia, collectMediaRefs, pruneMedia, toDisplayMedia, toStoredMedia } from './mediaStore';
+import { announceSaved, mergeChatHistories, onOtherTabSaved } from './tabSync';
+import { createEncryptionSettings, decryptValue, encryptValue, forgetKey, getEncryptedKeys, getEncryptionSettings, isEncryptedValue, isVaultLocked, loadEncryptionSettings, removeEncryptionSettings, unlockWithPassphrase, updateEncryptionSettings, CHAT_KEYS, SECRET_KEYS } from './encryptionService';
+import { BASELINE_SCHEMA_VERSION, checkUserData, migrateUserData, SCHEMA_VERSION, type SchemaIssue } from './schemaMigrations';
 
 // This service uses localForage to persist data via IndexedDB.
 declare const localforage: any;
 
-interface UserData {
+export interface UserData {
     bots: BotProfile[];
     personas: Persona[];
     chatHistories: Record<string, ChatMessage[]>;
@@ -19,6 +23,14 @@ interface UserData {
     geminiUsage: GeminiUsage;
     botReplyDelay: number;
     apiKeys: ApiKeyEntry[];
+    customEndpoint: CustomEndpointConfig | null;
+    ttsEngine: TtsEngineConfig | null;
+    chatSummaries: Record<string, ChatSummary>;
+    botMemories: Record<string, BotMemory[]>;
+    chatTrees: Record<string, ChatTree>;
+    groupChats: Record<string, GroupChat>;
+    chatThreads: Record<string, BotThreads>;
+    lorebook: Lorebook;
 }
 
 const OLD_STORAGE_KEY = 'zia_userData';
@@ -40,47 +52,258 @@ const KEYS: { [K in keyof UserData]: string } = {
     geminiUsage: 'zia_geminiUsage',
     botReplyDelay: 'zia_botReplyDelay',
     apiKeys: 'zia_apiKeys',
+    customEndpoint: 'zia_customEndpoint',
+    ttsEngine: 'zia_ttsEngine',
+    chatSummaries: 'zia_chatSummaries',
+    botMemories: 'zia_botMemories',
+    chatTrees: 'zia_chatTrees',
+    groupChats: 'zia_groupChats',
+    chatThreads: 'zia_chatThreads',
+    lorebook: 'zia_lorebook',
 };
 
+// Set when the shadow copy no longer fits in localStorage; surfaced by the storage monitor.
+let shadowBackupFull = false;
+export const isShadowBackupFull = () => shadowBackupFull;
+
 // Internal helper to sync to a secondary storage layer (Resilience)
 const syncShadowBackup = (data: Partial<UserData>) => {
     try {
         const existingShadow = localStorage.getItem(SHADOW_BACKUP_KEY);
         const shadowObj = existingShadow ? JSON.parse(existingShadow) : {};
         const updatedShadow = { ...shadowObj, ...data };
+        // Whatever the vault lock covers never goes to localStorage, not even as ciphertext.
+        getEncryptedKeys().forEach(key => delete updatedShadow[key]);
         // We limit history in shadow backup to prevent storage limits, 
         // but prioritize bot configs and recent messages.
         localStorage.setItem(SHADOW_BACKUP_KEY, JSON.stringify(updatedShadow));
+        shadowBackupFull = false;
     } catch (e) {
+        shadowBackupFull = true;
         console.warn("Shadow backup failed (likely storage limit)", e);
     }
 };
 
-// Migrates data from the old single-key format to the new multi-key format.
-export const migrateData = async (): Promise<void> => {
+// Takes `keys` out of the shadow copy. If even the smaller copy can't be written, the
+// whole copy goes: plaintext that should be encrypted must not stay behind.
+const dropFromShadowBackup = (keys: string[]) => {
     try {
-        const oldData = await localforage.getItem(OLD_STORAGE_KEY);
-        if (oldData) {
-            const data = oldData as UserData;
-            const promises = Object.entries(data).map(([key, value]) => {
-                const newKey = KEYS[key as keyof UserData];
-                if (newKey) return localforage.setItem(newKey, value);
-                return Promise.resolve();
-            });
-            await Promise.all(promises);
-            await localforage.removeItem(OLD_STORAGE_KEY);
-            syncShadowBackup(data);
+        const existingShadow = localStorage.getItem(SHADOW_BACKUP_KEY);
+        if (!existingShadow) return;
+        const shadowObj = JSON.parse(existingShadow);
+        if (!keys.some(key => key in shadowObj)) return;
+        keys.forEach(key => delete shadowObj[key]);
+        localStorage.setItem(SHADOW_BACKUP_KEY, JSON.stringify(shadowObj));
+    } catch (e) {
+        console.warn("Could not trim shadow backup, removing it", e);
+        localStorage.removeItem(SHADOW_BACKUP_KEY);
+    }
+};
+
+// Values in the vault lock's scope are stored encrypted; while the vault is locked they can't be written.
+const storeValue = async (key: keyof UserData, value: unknown): Promise<boolean> => {
+    if (!getEncryptedKeys().includes(key)) {
+        await localforage.setItem(KEYS[key], value);
+        return true;
+    }
+    if (isVaultLocked()) {
+        console.warn(`Vault is locked; not saving ${key}.`);
+        return false;
+    }
+    await localforage.setItem(KEYS[key], await encryptValue(value));
+    return true;
+};
+
+// Encrypted values read as missing while the vault is locked (or encrypted with another passphrase).
+const readValue = async (key: keyof UserData): Promise<any> => {
+    const value = await localforage.getItem(KEYS[key]);
+    if (!isEncryptedValue(value)) return value;
+    if (!getEncryptionSettings() || isVaultLocked()) return null;
+    try {
+        return await decryptValue(value);
+    } catch (error) {
+        console.error(`Could not decrypt ${key}`, error);
+        return null;
+    }
+};
+
+const SCHEMA_VERSION_KEY = 'zia_schemaVersion';
+// While the vault is locked the encrypted keys can't be read, so they can't be migrated either.
+// This holds the version they were left at; unlockVault migrates them and removes it.
+const ENCRYPTED_SCHEMA_VERSION_KEY = 'zia_schemaVersion_encrypted';
+// Records that failed validation, kept out of the app but not thrown away.
+const QUARANTINE_KEY = 'zia_quarantine';
+// Quarantined records from encrypted keys stay encrypted too.
+const ENCRYPTED_QUARANTINE_KEY = 'zia_quarantine_encrypted';
+
+export interface QuarantinedRecord extends SchemaIssue {
+    quarantinedAt: number;
+}
+
+export interface MigrationReport {
+    fromVersion: number;
+    toVersion: number;
+    applied: string[];
+    issues: SchemaIssue[];
+    dryRun: boolean;
+    error?: string;
+}
+
+// Moves data from the old single-key format to the new multi-key format.
+const moveLegacyStore = async (): Promise<boolean> => {
+    const oldData = await localforage.getItem(OLD_STORAGE_KEY);
+    if (!oldData) return false;
+    const data = oldData as UserData;
+    const promises = Object.entries(data).map(([key, value]) => {
+        const newKey = KEYS[key as keyof UserData];
+        if (newKey) return localforage.setItem(newKey, value);
+        return Promise.resolve();
+    });
+    await Promise.all(promises);
+    await localforage.removeItem(OLD_STORAGE_KEY);
+    syncShadowBackup(data);
+    return true;
+};
+
+const addToQuarantine = async (issues: SchemaIssue[], encrypted: boolean) => {
+    if (issues.length === 0) return;
+    const records = issues.map(issue => ({ ...issue, quarantinedAt: Date.now() }));
+    if (!encrypted) {
+        const existing: QuarantinedRecord[] = (await localforage.getItem(QUARANTINE_KEY)) || [];
+        await localforage.setItem(QUARANTINE_KEY, [...existing, ...records]);
+        return;
+    }
+    const stored = await localforage.getItem(ENCRYPTED_QUARANTINE_KEY);
+    const existing: QuarantinedRecord[] = isEncryptedValue(stored) ? await decryptValue(stored) : [];
+    await localforage.setItem(ENCRYPTED_QUARANTINE_KEY, await encryptValue([...existing, ...records]));
+};
+
+/**
+ * Runs the migration steps over `raw` and validates the result, but only reports on and
+ * writes back the keys in `scope`. Steps still see every key, since some read others
+ * (threads are built from the bots).
+ */
+const migrateScope = async (raw: Partial<UserData>, report: MigrationReport, scope: (keyof UserData)[], encrypted: boolean) => {
+    const migrated = migrateUserData(raw, report.fromVersion);
+    report.applied = migrated.applied.map(step => `v${step.version}: ${step.description}`);
+    const { data, issues } = checkUserData(migrated.data);
+    report.issues = issues.filter(issue => scope.includes(issue.key));
+    if (report.dryRun) return;
+
+    const changed = scope.filter(key => data[key] !== raw[key]);
+    await Promise.all(changed.map(key => data[key] === undefined ? localforage.removeItem(KEYS[key]) : storeValue(key, data[key])));
+    if (changed.length > 0) syncShadowBackup(Object.fromEntries(changed.map(key => [key, data[key]])));
+    await addToQuarantine(report.issues.filter(issue => issue.severity === 'error'), encrypted);
+};
+
+/**
+ * Brings stored data up to SCHEMA_VERSION and validates it. Malformed records are moved
+ * to the quarantine key rather than loaded. With `dryRun`, nothing is written and the
+ * report only says what would happen. Encrypted keys are left for unlockVault while
+ * the vault is locked.
+ */
+export const migrateData = async ({ dryRun = false }: { dryRun?: boolean } = {}): Promise<MigrationReport> => {
+    const report: MigrationReport = { fromVersion: SCHEMA_VERSION, toVersion: SCHEMA_VERSION, applied: [], issues: [], dryRun };
+    try {
+        if (!dryRun) await moveLegacyStore();
+        const raw = await loadRawUserData();
+        const storedVersion: number | null = await localforage.getItem(SCHEMA_VERSION_KEY);
+        // Unversioned data predates this framework; a fresh install starts at the current version.
+        report.fromVersion = storedVersion ?? (Object.keys(raw).length > 0 ? BASELINE_SCHEMA_VERSION : SCHEMA_VERSION);
+
+        const lockedKeys = isVaultLocked() ? getEncryptedKeys() as (keyof UserData)[] : [];
+        const scope = (Object.keys(KEYS) as (keyof UserData)[]).filter(key => !lockedKeys.includes(key));
+        await migrateScope(raw, report, scope, false);
+        if (dryRun) return report;
+
+        // An older version left by an earlier locked start wins; unlocking migrates from there.
+        const encryptedVersion: number | null = await localforage.getItem(ENCRYPTED_SCHEMA_VERSION_KEY);
+        if (lockedKeys.length > 0 && encryptedVersion === null && report.fromVersion < SCHEMA_VERSION) {
+            await localforage.setItem(ENCRYPTED_SCHEMA_VERSION_KEY, report.fromVersion);
         }
+        await localforage.setItem(SCHEMA_VERSION_KEY, SCHEMA_VERSION);
+        if (lockedKeys.length === 0 && encryptedVersion !== null) await migrateEncryptedData();
     } catch (error) {
         console.error("Migration failed:", error);
+        report.error = (error as Error)?.message || String(error);
+    }
+    return report;
+};
+
+// Migrates and validates the encrypted keys once they can be read.
+const migrateEncryptedData = async (): Promise<MigrationReport> => {
+    const encryptedVersion: number | null = await localforage.getItem(ENCRYPTED_SCHEMA_VERSION_KEY);
+    const report: MigrationReport = { fromVersion: encryptedVersion ?? SCHEMA_VERSION, toVersion: SCHEMA_VERSION, applied: [], issues: [], dryRun: false };
+    try {
+        // Without a lock (it was removed while these keys were behind), every key it could have covered.
+        const scope = (getEncryptionSettings() ? getEncryptedKeys() : [...SECRET_KEYS, ...CHAT_KEYS]) as (keyof UserData)[];
+        await migrateScope(await loadRawUserData(), report, scope, !!getEncryptionSettings());
+        await localforage.removeItem(ENCRYPTED_SCHEMA_VERSION_KEY);
+    } catch (error) {
+        console.error("Migration of encrypted data failed:", error);
+        report.error = (error as Error)?.message || String(error);
+    }
+    return report;
+};
+
+// Encrypted quarantined records only show while the vault is unlocked.
+export const getQuarantinedRecords = async (): Promise<QuarantinedRecord[]> => {
+    const plain: QuarantinedRecord[] = (await localforage.getItem(QUARANTINE_KEY)) || [];
+    const stored = await localforage.getItem(ENCRYPTED_QUARANTINE_KEY);
+    if (!isEncryptedValue(stored) || isVaultLocked() || !getEncryptionSettings()) return plain;
+    try {
+        return [...plain, ...await decryptValue(stored)];
+    } catch (error) {
+        console.error("Could not decrypt quarantined records", error);
+        return plain;
     }
 };
 
+export const clearQuarantinedRecords = async (): Promise<void> => {
+    await localforage.removeItem(QUARANTINE_KEY);
+    if (!isVaultLocked()) await localforage.removeItem(ENCRYPTED_QUARANTINE_KEY);
+};
+
 let saveTimeout: ReturnType<typeof setTimeout> | null = null;
 let pendingData: Partial<UserData> = {};
 
+// Cross-tab state: the chats as this tab last saw them in storage (the merge base; null means
+// "don't merge, overwrite"), and the values last handed to the app, which need no saving back.
+let syncedHistories: Record<string, ChatMessage[]> | null = null;
+let loadedValues: Partial<UserData> = {};
+
+// Keys a storage cleanup is rewriting. The app's saves of them are skipped until it has the
+// cleaned-up values, or its stale copy would write the old data back.
+const heldKeys = new Set<keyof UserData>();
+
+// Media is swapped for media-store references first, so neither IndexedDB nor the shadow copy holds base64.
+const writeData = async (data: Partial<UserData>) => {
+    data = await toStoredMedia(data);
+    if (data.chatHistories && syncedHistories) {
+        // Another tab may have written chats since we last looked; keep its messages too.
+        const stored: Record<string, ChatMessage[]> = (await readValue('chatHistories')) || {};
+        data = { ...data, chatHistories: mergeChatHistories(syncedHistories, data.chatHistories, stored) };
+    }
+    const keys = (Object.keys(data) as (keyof UserData)[]).filter(key => KEYS[key]);
+    const stored = await Promise.all(keys.map(key => storeValue(key, data[key])));
+    const written = keys.filter((_, i) => stored[i]);
+    if (written.includes('chatHistories')) syncedHistories = data.chatHistories!;
+    // Redundancy layer
+    syncShadowBackup(Object.fromEntries(written.map(key => [key, data[key]])));
+    announceSaved(written);
+};
+
 export const saveUserData = async (data: Partial<UserData>): Promise<void> => {
-    pendingData = { ...pendingData, ...data };
+    // Values that came straight from storage (startup load, another tab) are already saved.
+    const changes: Partial<UserData> = {};
+    (Object.keys(data) as (keyof UserData)[]).forEach(key => {
+        if (heldKeys.has(key) || (key in loadedValues && loadedValues[key] === data[key])) return;
+        delete loadedValues[key];
+        (changes as any)[key] = data[key];
+    });
+    if (Object.keys(changes).length === 0) return;
+
+    pendingData = { ...pendingData, ...changes };
     if (saveTimeout) clearTimeout(saveTimeout);
 
     saveTimeout = setTimeout(async () => {
@@ -89,34 +312,79 @@ export const saveUserData = async (data: Partial<UserData>): Promise<void> => {
         saveTimeout = null;
 
         try {
-            const promises = Object.entries(dataToSave).map(([key, value]) => {
-                const typedKey = key as keyof UserData;
-                if (KEYS[typedKey]) return localforage.setItem(KEYS[typedKey], value);
-                return Promise.resolve();
-            });
-            await Promise.all(promises);
-            // Redundancy layer
-            syncShadowBackup(dataToSave);
+            await writeData(dataToSave);
         } catch (error) {
             console.error(`Failed to save data`, error);
         }
     }, 500);
 };
 
+/** Writes what is pending, then skips the app's saves of `keys` until `releaseAppSaves`. */
+export const holdAppSaves = async (keys: (keyof UserData)[]): Promise<void> => {
+    await flushUserData();
+    keys.forEach(key => heldKeys.add(key));
+};
+
+export const releaseAppSaves = (keys: (keyof UserData)[]) => keys.forEach(key => heldKeys.delete(key));
+
+/** Writes `data` right away, held keys included. For rewrites made outside the app's state. */
+export const writeUserData = async (data: Partial<UserData>): Promise<void> => {
+    await flushUserData();
+    if (Object.keys(data).length > 0) await writeData(data);
+};
+
+// Writes any debounced changes right away, e.g. before taking a backup.
+export const flushUserData = async (): Promise<void> => {
+    if (!saveTimeout) return;
+    clearTimeout(saveTimeout);
+    saveTimeout = null;
+    const dataToSave = { ...pendingData };
+    pendingData = {};
+    await writeData(dataToSave);
+};
+
+// Reads the stored values as they are, with media still as `zia-media://` references.
+export const loadRawUserData = async (keyNames: (keyof UserData)[] = Object.keys(KEYS) as (keyof UserData)[]): Promise<Partial<UserData>> => {
+    const values = await Promise.all(keyNames.map(readValue));
+    const data: Partial<UserData> = {};
+    keyNames.forEach((key, index) => {
+        if (values[index] !== null && values[index] !== undefined) (data as any)[key] = values[index];
+    });
+    return data;
+};
+
+export interface StoredKeySize {
+    key: keyof UserData;
+    bytes: number;
+}
+
+// Serialized size of every stored key, largest first. Media blobs are counted separately by the media store.
+export const getStoredKeySizes = async (): Promise<StoredKeySize[]> => {
+    // Read as stored, so encrypted keys are measured (as ciphertext) even while the vault is locked.
+    const keys = Object.keys(KEYS) as (keyof UserData)[];
+    const values = await Promise.all(keys.map(key => localforage.getItem(KEYS[key])));
+    return keys
+        .map((key, i) => ({ key, bytes: values[i] == null ? 0 : new Blob([JSON.stringify(values[i])]).size }))
+        .sort((a, b) => b.bytes - a.bytes);
+};
+
+export const getShadowBackupSize = () => (localStorage.getItem(SHADOW_BACKUP_KEY) || '').length * 2; // UTF-16
+
+// Moves media still embedded as data URLs (saved before the media store existed) into the store.
+const migrateInlineMedia = async (data: Partial<UserData>): Promise<Partial<UserData>> => {
+    const stored = await toStoredMedia(data);
+    const changed = (Object.keys(stored) as (keyof UserData)[]).filter(key => stored[key] !== data[key]);
+    if (changed.length > 0) {
+        await Promise.all(changed.map(key => storeValue(key, stored[key])));
+        syncShadowBackup(Object.fromEntries(changed.map(key => [key, stored[key]])));
+    }
+    return stored;
+};
+
 export const loadUserData = async (): Promise<Partial<UserData>> => {
     try {
-        const keyNames = Object.keys(KEYS) as (keyof UserData)[];
-        const promises = keyNames.map(keyName => localforage.getItem(KEYS[keyName]));
-        const values = await Promise.all(promises);
-
-        const data: Partial<UserData> = {};
-        let hasData = false;
-        keyNames.forEach((key, index) => {
-            if (values[index] !== null && values[index] !== undefined) {
-                (data as any)[key] = values[index];
-                hasData = true;
-            }
-        });
+        const data = await migrateInlineMedia(await loadRawUserData());
+        const hasData = Object.keys(data).length > 0;
 
         // SHADOW RECOVERY: If primary DB is empty but shadow has data, restore it
         if (!hasData || !data.bots || data.bots.length === 0) {
@@ -124,22 +392,168 @@ export const loadUserData = async (): Promise<Partial<UserData>> => {
             if (shadow) {
                 const shadowData = JSON.parse(shadow);
                 console.log("Database empty. Recovering from Shadow Persistence...");
-                return shadowData;
+                return toDisplayMedia(shadowData);
             }
         }
 
-        return data;
+        syncedHistories = data.chatHistories || {};
+        loadedValues = await toDisplayMedia(data);
+        return loadedValues;
     } catch (error) {
         console.error(`Failed to load data`, error);
         return {};
     }
 };
 
+const clearStoredKeys = async () => {
+    await Promise.all(Object.values(KEYS).map(key => localforage.removeItem(key)));
+    localStorage.removeItem(SHADOW_BACKUP_KEY);
+};
+
 export const clearUserData = async (): Promise<void> => {
     try {
-        await Promise.all(Object.values(KEYS).map(key => localforage.removeItem(key)));
-        localStorage.removeItem(SHADOW_BACKUP_KEY);
+        await clearStoredKeys();
+        await clearQuarantinedRecords();
+        await clearMedia();
+        await removeEncryptionSettings();
+        syncedHistories = {};
+        loadedValues = {};
+        announceSaved(Object.keys(KEYS));
     } catch (error) {
         console.error(`Failed to clear data`, error);
     }
 };
+
+// Swaps the whole store for `data` (used by backup restore). Pending debounced saves are dropped.
+export const replaceUserData = async (data: Partial<UserData>): Promise<void> => {
+    if (saveTimeout) clearTimeout(saveTimeout);
+    saveTimeout = null;
+    pendingData = {};
+    // Restored chats replace what is stored rather than merging into it.
+    syncedHistories = null;
+    // Media stays: the new data may share it. Anything left unreferenced is collected later.
+    await clearStoredKeys();
+    await writeData(data);
+    if (!data.chatHistories) syncedHistories = {};
+    announceSaved(Object.keys(KEYS));
+};
+
+export interface OtherTabChange {
+    keys: (keyof UserData)[];
+    data: Partial<UserData>;
+    // Folds the other tab's chats into this tab's, keeping messages either side added.
+    mergeHistories: (local: Record<string, ChatMessage[]>) => Record<string, ChatMessage[]>;
+}
+
+/**
+ * Calls `listener` whenever another tab saves. Only the keys it saved are reloaded; keys it
+ * deleted come back missing from `data`. Returns an unsubscribe function.
+ */
+export const subscribeToOtherTabs = (listener: (change: OtherTabChange) => void): (() => void) =>
+    onOtherTabSaved(async (savedKeys) => {
+        const keys = savedKeys.filter((key): key is keyof UserData => key in KEYS);
+        if (keys.length === 0) return;
+        try {
+            // The other tab may have turned the vault lock on or off.
+            await loadEncryptionSettings();
+            const data = await toDisplayMedia(await loadRawUserData(keys));
+            // The other tab's version wins for everything but chats, including over our unsaved edits.
+            keys.forEach(key => {
+                delete pendingData[key];
+                if (key in data) (loadedValues as any)[key] = data[key];
+                else delete loadedValues[key];
+            });
+            const base = syncedHistories || {};
+            const remoteHistories = data.chatHistories || {};
+            if (keys.includes('chatHistories')) syncedHistories = remoteHistories;
+            listener({ keys, data, mergeHistories: local => mergeChatHistories(base, local, remoteHistories) });
+        } catch (error) {
+            console.error(`Failed to load changes from another tab`, error);
+        }
+    });
+
+/** Deletes media blobs that no stored key references any more. Returns the number of bytes freed. */
+export const collectMediaGarbage = async (): Promise<number> => {
+    // Media only referenced from encrypted chats would look unused.
+    if (isVaultLocked()) return 0;
+    try {
+        await flushUserData();
+        const inUse = collectMediaRefs(await loadRawUserData());
+        // The shadow copy may be all that is left after IndexedDB loses the keys; keep its media too.
+        const shadow = localStorage.getItem(SHADOW_BACKUP_KEY);
+        if (shadow) collectMediaRefs(JSON.parse(shadow), inUse);
+        return await pruneMedia(inUse);
+    } catch (error) {
+        console.error(`Media cleanup failed`, error);
+        return 0;
+    }
+};
+
+// --- Vault lock (see encryptionService) ---
+
+// Rewrites `keys` under the current lock settings and drops newly encrypted ones from the shadow copy.
+const rewriteKeys = async (data: Partial<UserData>, keys: string[]) => {
+    dropFromShadowBackup(getEncryptedKeys());
+    const present = (keys as (keyof UserData)[]).filter(key => data[key] !== undefined);
+    await Promise.all(present.map(key => storeValue(key, data[key])));
+    syncShadowBackup(Object.fromEntries(present.map(key => [key, data[key]])));
+    announceSaved(present);
+};
+
+export const enableVaultLock = async (passphrase: string, options: { encryptChats: boolean; autoLockMinutes: number }): Promise<void> => {
+    if (getEncryptionSettings()) throw new Error('The vault lock is already on.');
+    await flushUserData();
+    const current = await loadRawUserData();
+    await createEncryptionSettings(passphrase, options);
+    await rewriteKeys(current, getEncryptedKeys());
+};
+
+// Moves chats into or out of the encrypted scope. Needs the vault unlocked.
+export const setChatEncryption = async (encryptChats: boolean): Promise<void> => {
+    if (isVaultLocked()) throw new Error('Unlock the vault first.');
+    await flushUserData();
+    const current = await loadRawUserData(CHAT_KEYS as (keyof UserData)[]);
+    await updateEncryptionSettings({ encryptChats });
+    await rewriteKeys(current, CHAT_KEYS);
+};
+
+export const setAutoLockMinutes = (autoLockMinutes: number) => updateEncryptionSettings({ autoLockMinutes });
+
+export const disableVaultLock = async (): Promise<void> => {
+    if (isVaultLocked()) throw new Error('Unlock the vault first.');
+    await flushUserData();
+    const current = await loadRawUserData();
+    const keys = getEncryptedKeys();
+    const quarantined = await getQuarantinedRecords();
+    await removeEncryptionSettings();
+    await rewriteKeys(current, keys);
+    // Encrypted quarantined records go back in with the plain ones.
+    await localforage.setItem(QUARANTINE_KEY, quarantined);
+    await localforage.removeItem(ENCRYPTED_QUARANTINE_KEY);
+};
+
+// Saves what is pending, then forgets the key. Encrypted keys read as missing until unlockVault.
+export const lockVault = async (): Promise<void> => {
+    await flushUserData();
+    forgetKey();
+};
+
+/** Checks the passphrase and returns the freshly loaded data, encrypted keys included. Throws on a wrong passphrase. */
+export const unlockVault = async (passphrase: string): Promise<Partial<UserData>> => {
+    // Anything queued for an encrypted key while locked is only the emptied state; never let it overwrite real data.
+    getEncryptedKeys().forEach(key => delete pendingData[key as keyof UserData]);
+    await unlockWithPassphrase(passphrase);
+    const report = await migrateEncryptedData();
+    if (report.error || report.issues.length > 0) console.warn("Encrypted data check:", report);
+    return loadUserData();
+};
+
+// The "forgot passphrase" path: encrypted data can't be recovered, so it is deleted along with the lock.
+export const wipeLockedVault = async (): Promise<void> => {
+    const keys = getEncryptedKeys() as (keyof UserData)[];
+    keys.forEach(key => { delete pendingData[key]; delete loadedValues[key]; });
+    await Promise.all([...keys.map(key => localforage.removeItem(KEYS[key])), localforage.removeItem(ENCRYPTED_SCHEMA_VERSION_KEY), localforage.removeItem(ENCRYPTED_QUARANTINE_KEY)]);
+    await removeEncryptionSettings();
+    if (keys.includes('chatHistories')) syncedHistories = {};
+    announceSaved(keys);
+};
@@ -0,0 +1,92 @@
+import type { ChatMessage } from '../types';
+
+/**
+ * 🔁 TAB SYNC
+ * Lets several open tabs share one store. After a tab saves, it announces which keys
+ * changed on a BroadcastChannel; the other tabs reload those keys. Chats are merged
+ * message by message against the last version both sides agreed on, so two tabs
+ * chatting at once keep each other's messages instead of overwriting them.
+ */
+
+const CHANNEL_NAME = 'zia_sync';
+
+export const TAB_ID = `tab-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+interface SyncMessage {
+    tabId: string;
+    keys: string[];
+}
+
+let channel: BroadcastChannel | null = null;
+const getChannel = () => {
+    if (!channel && typeof BroadcastChannel !== 'undefined') channel = new BroadcastChannel(CHANNEL_NAME);
+    return channel;
+};
+
+export const announceSaved = (keys: string[]) => {
+    if (keys.length === 0) return;
+    try {
+        getChannel()?.postMessage({ tabId: TAB_ID, keys } as SyncMessage);
+    } catch (e) {
+        console.warn("Could not notify other tabs", e);
+    }
+};
+
+// Calls `listener` with the keys another tab saved. Returns an unsubscribe function.
+export const onOtherTabSaved = (listener: (keys: string[]) => void): (() => void) => {
+    const bc = getChannel();
+    if (!bc) return () => {};
+    const handler = (event: MessageEvent<SyncMessage>) => {
+        if (event.data?.tabId !== TAB_ID && Array.isArray(event.data?.keys)) listener(event.data.keys);
+    };
+    bc.addEventListener('message', handler);
+    return () => bc.removeEventListener('message', handler);
+};
+
+const sameHistory = (a: ChatMessage[] = [], b: ChatMessage[] = []) =>
+    a === b || (a.length === b.length && a.every((m, i) => m.id === b[i].id && m.text === b[i].text));
+
+// Three-way merge of one chat. A message is gone if either side deleted it; an edit wins over an untouched copy.
+const mergeHistory = (base: ChatMessage[] = [], local: ChatMessage[] = [], remote: ChatMessage[] = []): ChatMessage[] => {
+    const baseById = new Map(base.map(m => [m.id, m]));
+    const localById = new Map(local.map(m => [m.id, m]));
+    const remoteById = new Map(remote.map(m => [m.id, m]));
+    const deleted = (id: string) => baseById.has(id) && (!localById.has(id) || !remoteById.has(id));
+
+    const merged: ChatMessage[] = [];
+    local.forEach(m => {
+        if (deleted(m.id)) return;
+        const theirs = remoteById.get(m.id);
+        const localEdited = m.text !== baseById.get(m.id)?.text;
+        merged.push(theirs && !localEdited ? theirs : m);
+    });
+    remote.forEach(m => {
+        if (!localById.has(m.id) && !deleted(m.id)) merged.push(m);
+    });
+    // Stable sort keeps local order for messages sent in the same millisecond.
+    return merged.sort((a, b) => a.timestamp - b.timestamp);
+};
+
+/**
+ * Merges this tab's chats (`local`) with another tab's (`remote`), given the version
+ * both started from (`base`). Chats only one side touched are taken as they are, and
+ * when nothing local is new the result is `remote` itself.
+ */
+export const mergeChatHistories = (
+    base: Record<string, ChatMessage[]>,
+    local: Record<string, ChatMessage[]>,
+    remote: Record<string, ChatMessage[]>
+): Record<string, ChatMessage[]> => {
+    const result: Record<string, ChatMessage[]> = {};
+    let matchesRemote = true;
+    new Set([...Object.keys(local), ...Object.keys(remote)]).forEach(botId => {
+        const b = base[botId], l = local[botId], r = remote[botId];
+        let chat: ChatMessage[] | undefined;
+        if (sameHistory(l, b)) chat = r;
+        else if (sameHistory(r, b)) chat = l;
+        else chat = mergeHistory(b, l, r);
+        if (chat) result[botId] = chat;
+        if (result[botId] !== r) matchesRemote = false;
+    });
+    return matchesRemote ? remote : result;
+};
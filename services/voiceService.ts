@@ -0,0 +1,224 @@
+/**
+ * 🔊 VOICE OUTPUT
+ * Reads replies aloud in the speaking bot's own voice profile. Speech comes from a
+ * pluggable engine: the browser's speech synthesis (voices differ per device), or a
+ * text-to-speech server that returns audio, so a character sounds the same everywhere.
+ * `*action*` segments can be read normally, skipped or whispered; each segment is
+ * spoken separately so the whisper can use a softer volume and pitch.
+ */
+import type { BotProfile, TtsEngineConfig, TtsEngineId, VoicePreference, VoiceProfile } from '../types';
+
+export const DEFAULT_VOICE_PROFILE: VoiceProfile = {
+    voiceName: null,
+    serverVoice: '',
+    rate: 1,
+    pitch: 1,
+    volume: 1,
+    actions: 'read',
+    autoRead: false,
+};
+
+const WHISPER_VOLUME = 0.4;
+const WHISPER_PITCH = 0.8;
+// Server audio kept in memory for replays, per message.
+const AUDIO_CACHE_LIMIT = 50;
+
+export const getVoiceProfile = (bot?: BotProfile | null): VoiceProfile => ({ ...DEFAULT_VOICE_PROFILE, ...bot?.voice });
+
+export interface SpeakRequest {
+    text: string;
+    profile: VoiceProfile;
+    fallbackVoice?: VoicePreference | null; // the browser voice picked in Settings
+    messageId?: string; // set for chat messages, so their audio can be cached
+}
+
+export interface TtsEngine {
+    // `onEnd` runs exactly once: when playback finishes, fails or is stopped.
+    speak: (request: SpeakRequest, onEnd?: () => void) => void;
+    stop: () => void;
+}
+
+interface SpokenSegment { text: string; isAction: boolean }
+
+// Bold and strike markers are dropped first so `**` never reads as an action.
+const splitSpokenText = (text: string): SpokenSegment[] => {
+    const plain = text.replace(/\*\*(.+?)\*\*/g, '$1').replace(/~~(.+?)~~/g, '$1').replace(/`{3}[\s\S]*?(`{3}|$)/g, ' ');
+    const segments: SpokenSegment[] = [];
+    let last = 0;
+    for (const m of plain.matchAll(/\*([^*\n]+?)\*/g)) {
+        segments.push({ text: plain.slice(last, m.index), isAction: false });
+        segments.push({ text: m[1], isAction: true });
+        last = m.index! + m[0].length;
+    }
+    segments.push({ text: plain.slice(last), isAction: false });
+    return segments
+        .map(s => ({ ...s, text: s.text.replace(/[*_`#>]/g, '').replace(/\s+/g, ' ').trim() }))
+        .filter(s => /[\p{L}\p{N}]/u.test(s.text));
+};
+
+const getSegments = ({ text, profile }: SpeakRequest) =>
+    splitSpokenText(text).filter(s => !(s.isAction && profile.actions === 'skip'));
+
+const isWhispered = (segment: SpokenSegment, profile: VoiceProfile) => segment.isAction && profile.actions === 'whisper';
+
+// Guards `onEnd` so a stop after the natural end doesn't call it twice.
+const once = (fn?: () => void) => {
+    let called = false;
+    return () => { if (!called) { called = true; fn?.(); } };
+};
+
+// --- Browser speech ---
+
+// Exact name first, then a partial match so older "female"/"male" style preferences still work.
+const findVoice = (voices: SpeechSynthesisVoice[], name?: VoicePreference | null): SpeechSynthesisVoice | undefined => {
+    if (!name || voices.length === 0) return undefined;
+    const lower = name.toLowerCase();
+    return voices.find(v => v.name === name) || voices.find(v => v.name.toLowerCase().includes(lower)) || voices[0];
+};
+
+// Chrome drops utterances that nothing references before `onend` fires.
+let pendingUtterances: SpeechSynthesisUtterance[] = [];
+
+const browserEngine: TtsEngine = {
+    speak: (request, onEnd) => {
+        browserEngine.stop();
+        const finish = once(onEnd);
+        const segments = getSegments(request);
+        if (segments.length === 0) { finish(); return; }
+
+        const { profile } = request;
+        const voice = findVoice(window.speechSynthesis.getVoices(), profile.voiceName || request.fallbackVoice);
+        const queue = segments.map(segment => {
+            const utterance = new SpeechSynthesisUtterance(segment.text);
+            if (voice) utterance.voice = voice;
+            const whisper = isWhispered(segment, profile);
+            utterance.rate = profile.rate;
+            utterance.pitch = whisper ? profile.pitch * WHISPER_PITCH : profile.pitch;
+            utterance.volume = whisper ? profile.volume * WHISPER_VOLUME : profile.volume;
+            return utterance;
+        });
+        const end = () => {
+            if (pendingUtterances === queue) pendingUtterances = [];
+            finish();
+        };
+        queue[queue.length - 1].onend = end;
+        queue[queue.length - 1].onerror = end;
+        pendingUtterances = queue;
+        queue.forEach(utterance => window.speechSynthesis.speak(utterance));
+    },
+    stop: () => {
+        pendingUtterances = [];
+        window.speechSynthesis.cancel();
+    },
+};
+
+// --- TTS server ---
+
+interface CachedAudio { key: string; clips: Promise<Blob[]> }
+
+// Keyed by message id; an edit or a voice change makes a new key and replaces the entry.
+const audioCache = new Map<string, CachedAudio>();
+
+interface ServerPlayback { audio: HTMLAudioElement | null; url: string | null; finish: () => void; isStopped: boolean }
+let serverPlayback: ServerPlayback | null = null;
+
+const fetchClip = async (config: TtsEngineConfig, text: string, profile: VoiceProfile): Promise<Blob> => {
+    const response = await fetch(`${config.baseUrl.trim().replace(/\/+$/, '')}/audio/speech`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}) },
+        body: JSON.stringify({
+            model: config.model || 'tts-1',
+            input: text,
+            voice: profile.serverVoice || 'alloy',
+            speed: profile.rate,
+            response_format: 'mp3',
+        }),
+    });
+    if (!response.ok) throw new Error(`Voice server error ${response.status}: ${(await response.text()).slice(0, 200)}`);
+    return response.blob();
+};
+
+const getClips = (config: TtsEngineConfig, request: SpeakRequest, segments: SpokenSegment[]): Promise<Blob[]> => {
+    const { profile, messageId } = request;
+    const load = () => Promise.all(segments.map(s => fetchClip(config, s.text, profile)));
+    if (!messageId) return load();
+
+    const key = JSON.stringify([config.baseUrl, config.model, profile.serverVoice, profile.rate, profile.actions, request.text]);
+    const cached = audioCache.get(messageId);
+    audioCache.delete(messageId);
+    if (cached?.key === key) {
+        audioCache.set(messageId, cached); // most recently played goes last
+        return cached.clips;
+    }
+    const clips = load();
+    audioCache.set(messageId, { key, clips });
+    // A failed request isn't worth remembering.
+    clips.catch(() => { if (audioCache.get(messageId)?.clips === clips) audioCache.delete(messageId); });
+    while (audioCache.size > AUDIO_CACHE_LIMIT) audioCache.delete(audioCache.keys().next().value!);
+    return clips;
+};
+
+const createServerEngine = (config: TtsEngineConfig): TtsEngine => {
+    const engine: TtsEngine = {
+        speak: (request, onEnd) => {
+            engine.stop();
+            const segments = getSegments(request);
+            const playback: ServerPlayback = { audio: null, url: null, finish: once(onEnd), isStopped: false };
+            serverPlayback = playback;
+            if (segments.length === 0) { playback.finish(); return; }
+
+            const { profile } = request;
+            const playClip = (clips: Blob[], i: number) => {
+                if (playback.url) URL.revokeObjectURL(playback.url);
+                playback.url = null;
+                if (playback.isStopped) return;
+                if (i >= clips.length) { playback.finish(); return; }
+                const url = URL.createObjectURL(clips[i]);
+                const audio = new Audio(url);
+                audio.volume = Math.min(1, isWhispered(segments[i], profile) ? profile.volume * WHISPER_VOLUME : profile.volume);
+                audio.onended = () => playClip(clips, i + 1);
+                audio.onerror = () => playClip(clips, i + 1);
+                playback.audio = audio;
+                playback.url = url;
+                audio.play().catch(() => playClip(clips, i + 1));
+            };
+
+            getClips(config, request, segments)
+                .then(clips => playClip(clips, 0))
+                .catch(error => {
+                    // An unreachable server shouldn't leave the bot mute.
+                    console.warn('Zia.ai: Voice server failed, using browser speech.', error);
+                    if (!playback.isStopped) browserEngine.speak(request, playback.finish);
+                });
+        },
+        stop: () => {
+            const playback = serverPlayback;
+            serverPlayback = null;
+            browserEngine.stop();
+            if (!playback) return;
+            playback.isStopped = true;
+            playback.audio?.pause();
+            if (playback.url) URL.revokeObjectURL(playback.url);
+            playback.finish();
+        },
+    };
+    return engine;
+};
+
+// --- Active engine ---
+
+let activeEngine: TtsEngine = browserEngine;
+let activeEngineId: TtsEngineId = 'browser';
+
+export const configureVoiceEngine = (config: TtsEngineConfig | null) => {
+    activeEngine.stop();
+    const useServer = config?.engine === 'server' && !!config.baseUrl.trim();
+    activeEngine = useServer ? createServerEngine(config!) : browserEngine;
+    activeEngineId = useServer ? 'server' : 'browser';
+};
+
+export const getVoiceEngineId = () => activeEngineId;
+
+export const speak = (request: SpeakRequest, onEnd?: () => void) => activeEngine.speak(request, onEnd);
+
+export const stopSpeaking = () => activeEngine.stop();
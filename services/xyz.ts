@@ -1,5 +1,15 @@
 
-import type { ChatMessage, ConversationMode, BotGender } from '../types';
+import type { ChatMessage, ConversationMode, BotGender, LorePosition } from '../types';
+
+/**
+ * Extra conversation state injected alongside the personality prompt.
+ */
+export interface PromptContext {
+  summary?: string; // rolling summary of turns no longer sent verbatim
+  memories?: string[]; // long-term facts relevant to this turn
+  group?: { speakerName: string; others: { name: string; description: string }[] }; // set in group chats
+  lore?: { name: string; content: string; position: LorePosition }[]; // lorebook entries triggered by recent turns
+}
 
 /**
  * This is a placeholder function for user-defined custom logic.
@@ -12,6 +22,7 @@ import type { ChatMessage, ConversationMode, BotGender } from '../types';
  * @param botPrompt - The bot's base personality prompt.
  * @param mode - The selected conversation mode (normal, spicy, extreme).
  * @param gender - The bot's gender/POV (female, male, fluid).
+ * @param context - Optional conversation state (rolling summary, remembered facts, group scene, lore) to inject.
  * @returns {string} The enhanced personality prompt to be sent to the AI.
  */
 export const xyz = (
@@ -19,7 +30,8 @@ export const xyz = (
   userMessage: string,
   botPrompt: string,
   mode: ConversationMode = 'normal',
-  gender: BotGender = 'female'
+  gender: BotGender = 'female',
+  context: PromptContext = {}
 ): string => {
   
   // --- POV & GENDER RULES ---
@@ -127,5 +139,38 @@ ${baseIntimacyText}
 - NO other format is allowed. Keep it clean and simple.
 `;
 
-  return `${botPrompt}\n\n${povInstruction}\n\n${strictIdentityRules}\n\n# DYNAMIC INSTRUCTIONS\n${customBehaviorInstruction}`;
+  // --- CONVERSATION MEMORY ---
+  const storySoFar = context.summary ? `
+# STORY SO FAR
+Summary of the earlier conversation, which is no longer shown word for word. Treat it as things you remember.
+${context.summary}
+` : '';
+
+  const remembered = context.memories?.length ? `
+# WHAT YOU REMEMBER ABOUT THE USER
+Bring these up naturally when they fit. Never recite them as a list.
+${context.memories.map(m => `- ${m}`).join('\n')}
+` : '';
+
+  // --- GROUP SCENE ---
+  const groupScene = context.group ? `
+# GROUP SCENE
+You are ${context.group.speakerName}, one of several characters talking with the user. Also present:
+${context.group.others.map(o => `- ${o.name}${o.description ? `: ${o.description}` : ''}`).join('\n')}
+- Lines that start with another character's name and a colon were said by that character. Everything else is the user.
+- Reply ONLY as ${context.group.speakerName}. Never write words, actions or thoughts for the other characters.
+- You may react to the others and address them by name. Do not start your reply with your own name.
+` : '';
+
+  // --- LOREBOOK ---
+  const loreAt = (position: LorePosition) => {
+    const entries = context.lore?.filter(e => e.position === position) || [];
+    return entries.length ? `
+# WORLD INFO
+Facts about this world that matter right now. Use them when relevant; never recite them.
+${entries.map(e => `## ${e.name}\n${e.content}`).join('\n\n')}
+` : '';
+  };
+
+  return `${loreAt('before_character')}${botPrompt}\n\n${loreAt('after_character')}\n\n${povInstruction}\n\n${strictIdentityRules}\n\n${groupScene}\n\n${storySoFar}\n\n${remembered}\n\n# DYNAMIC INSTRUCTIONS\n${customBehaviorInstruction}${loreAt('end')}`;
 };
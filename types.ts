@@ -1,22 +1,43 @@
+import type { ModelId } from './services/modelRegistry';
 
-export type AIProvider = 'gemini' | 'deepseek' | 'groq' | 'local';
-
-export type AIModelOption = 
-  | 'gemini-3-flash-preview'
-  | 'gemini-3-pro-preview'
-  | 'gemini-2.5-flash' 
-  | 'gemini-2.5-pro' 
-  | 'gemini-flash-latest' 
-  | 'gemini-flash-lite-latest' 
-  | 'deepseek-chat'
-  | 'deepseek-reasoner'
-  | 'llama-3.3-70b-versatile'
-  | 'llama-3.1-8b-instant'
-  | 'mixtral-8x7b-32768'
-  | 'local-offline';
+export type AIProvider = 'gemini' | 'deepseek' | 'groq' | 'custom' | 'local';
+
+// Model ids are declared once, in the registry.
+export type AIModelOption = ModelId;
 
 export type VoicePreference = string;
 
+// Where spoken replies come from: the browser's own voices, or a text-to-speech server
+// speaking the OpenAI /v1/audio/speech protocol (Kokoro-FastAPI, openedai-speech...).
+export type TtsEngineId = 'browser' | 'server';
+
+export interface TtsEngineConfig {
+  engine: TtsEngineId;
+  baseUrl: string; // e.g. http://192.168.1.20:8880/v1
+  model: string;
+  apiKey?: string;
+}
+
+// How `*action*` segments of a reply are read aloud.
+export type ActionReading = 'read' | 'skip' | 'whisper';
+
+export interface VoiceProfile {
+  voiceName?: string | null; // null uses the voice picked in Settings
+  serverVoice?: string; // voice id on the TTS server; empty uses the server's default
+  rate: number; // 0.5 - 2
+  pitch: number; // 0 - 2
+  volume: number; // 0 - 1
+  actions: ActionReading;
+  autoRead: boolean; // read new replies aloud as they arrive
+}
+
+// A self-hosted server speaking the OpenAI /v1/chat/completions protocol (llama.cpp, Ollama, vLLM...).
+export interface CustomEndpointConfig {
+  baseUrl: string; // e.g. http://192.168.1.20:11434/v1
+  model: string;
+  apiKey?: string;
+}
+
 export type ConversationMode = 'normal' | 'spicy' | 'extreme';
 export type BotGender = 'female' | 'male' | 'fluid';
 
@@ -38,7 +59,7 @@ export interface BotProfile {
   name: string;
   description: string;
   personality: string;
-  photo: string; // base64 data URL
+  photo: string; // data URL or object URL; stored as a zia-media:// reference
   originalPhoto?: string | null; 
   gif?: string | null; 
   scenario: string;
@@ -46,9 +67,10 @@ export interface BotProfile {
   originalChatBackground?: string | null; 
   chatBackgroundBrightness?: number; 
   personaId?: string | null;
-  isSpicy?: boolean; 
+  isSpicy?: boolean; // legacy flag, replaced by conversationMode in schema v2
   conversationMode?: ConversationMode; 
   gender?: BotGender; 
+  voice?: VoiceProfile;
   galleryImages?: string[]; 
   originalGalleryImages?: string[]; 
   galleryVideos?: string[]; 
@@ -61,6 +83,87 @@ export interface ChatMessage {
   text: string;
   sender: 'user' | 'bot';
   timestamp: number;
+  speakerId?: string; // group chats: the bot that said it; absent means the chat's own bot
+}
+
+// How a group chat decides which bot answers next.
+export type TurnPolicy = 'round-robin' | 'addressed' | 'model';
+
+// Other bots sharing a conversation. Keyed, like the chat itself, by thread id; the host is the thread's bot.
+export interface GroupChat {
+  participantIds: string[]; // in speaking order after the host
+  turnPolicy: TurnPolicy;
+}
+
+// One of a bot's conversations. Its history, summary, branches and group live under the thread id.
+export interface ChatThread {
+  id: string; // a bot's first thread reuses the bot id, so chats saved before threads keep their keys
+  botId: string;
+  name: string;
+  createdAt: number;
+  archived?: boolean;
+}
+
+export interface BotThreads {
+  activeThreadId: string;
+  threads: ChatThread[];
+}
+
+// Rolling summary of the turns that no longer fit in the model's context.
+export interface ChatSummary {
+  text: string;
+  coveredUntilId: string; // last message folded into the summary
+  updatedAt: number;
+}
+
+// One message in a conversation tree; siblings are alternate replies or forked branches.
+export interface ChatTreeNode {
+  message: ChatMessage;
+  parentId: string | null; // null for the conversation's first messages
+  childIds: string[];
+  activeChildId: string | null;
+}
+
+// Every branch of a conversation. The flat history in chatHistories is the active path through it.
+export interface ChatTree {
+  nodes: Record<string, ChatTreeNode>;
+  rootIds: string[];
+  activeRootId: string | null;
+}
+
+// A durable fact a bot remembers about the user, shown and editable in the chat's memory panel.
+export interface BotMemory {
+  id: string;
+  text: string;
+  pinned: boolean; // always sent to the model and never overwritten by auto-capture
+  source: 'auto' | 'manual';
+  slot?: string; // single-valued facts (name, age, ...) replace each other instead of piling up
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Where a lore entry lands in the prompt: before the character sheet, right after it,
+// or at the very end, where it weighs most.
+export type LorePosition = 'before_character' | 'after_character' | 'end';
+export type LoreScope = 'global' | 'bot' | 'persona';
+
+export interface LoreEntry {
+  id: string;
+  name: string;
+  keywords: string[]; // any of these in recent turns fires the entry
+  content: string;
+  priority: number; // higher goes first when the token budget runs out
+  position: LorePosition;
+  scope: LoreScope;
+  ownerId?: string | null; // the bot or persona a scoped entry belongs to
+  enabled: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface Lorebook {
+  entries: LoreEntry[];
+  tokenBudget: number; // most tokens of lore sent with one reply
 }
 
 export interface Persona {
@@ -75,6 +178,7 @@ export interface ChatSession {
   startTime: number;
   endTime: number;
   botId: string;
+  threadId?: string; // absent in sessions logged before threads; those belong to the default thread
 }
 
 export interface CustomBlock {
@@ -101,4 +205,5 @@ export interface ApiKeyEntry {
   key: string;
   isActive: boolean;
   isExhausted: boolean;
+  provider?: AIProvider; // entries saved before providers were tracked are Gemini keys
 }